@@ -1,6 +1,7 @@
 import { Routes, Route } from "react-router-dom";
 import { AuthProvider } from "./auth/AuthContext";
 import PrivateRoute from "./auth/PrivateRoute";
+import { ROUTE_ROLES } from "./auth/routeAccess";
 import Layout from "./components/Layout";
 import LoginPage from "./pages/LoginPage";
 import RegisterPage from "./pages/RegisterPage";
@@ -9,10 +10,16 @@ import AttemptPage from "./pages/AttemptPage";
 import ResultPage from "./pages/ResultPage";
 import TakeQuizPage from "./pages/TakeQuizPage";
 import InstructorPage from "./pages/InstructorPage";
+import QuestionBankPage from "./pages/QuestionBankPage";
 import AttemptDetailPage from "./pages/AttemptDetailPage";
+import QuizAttemptsAdminPage from "./pages/QuizAttemptsAdminPage";
+import GradebookPage from "./pages/GradebookPage";
 import AdminDashboard from "./pages/AdminDashboard";
 import StudentDashboard from "./pages/StudentDashboard";
 import QuizListPage from "./pages/QuizListPage";
+import CoursesPage from "./pages/CoursesPage";
+import CoursePage from "./pages/CoursePage";
+import JoinCoursePage from "./pages/JoinCoursePage";
 import NotFound from "./pages/NotFound";
 import Forbidden from "./pages/Forbidden";
 import LandingPage from "./pages/LandingPage";
@@ -29,10 +36,16 @@ export default function App() {
         <Route path="/quiz/:quizId/take"element={<PrivateRoute><Layout><TakeQuizPage /></Layout></PrivateRoute>}/>
         <Route path="/quiz/:quizId/attempts/:attemptId"element={<PrivateRoute><Layout><AttemptPage /> </Layout></PrivateRoute>}/>
         <Route path="/quiz/:quizId/attempts/:attemptId/result"element={ <PrivateRoute> <Layout><ResultPage /></Layout></PrivateRoute>}/>
-        <Route path="/instructor" element={ <PrivateRoute roles={["INSTRUCTOR"]}> <Layout> <InstructorPage /> </Layout> </PrivateRoute>}/>
-        <Route path="/quiz/:quizId/attempts/:attemptId/detail"element={<PrivateRoute roles={["INSTRUCTOR"]}><Layout><AttemptDetailPage /></Layout></PrivateRoute>}/>
-        <Route path="/admin"element={<PrivateRoute roles={["ADMIN"]}><Layout><AdminDashboard /></Layout></PrivateRoute>}/>
-        <Route path="/student"element={<PrivateRoute roles={["STUDENT"]}><Layout><StudentDashboard /></Layout></PrivateRoute>}/>
+        <Route path="/instructor" element={ <PrivateRoute roles={ROUTE_ROLES["/instructor"]}> <Layout> <InstructorPage /> </Layout> </PrivateRoute>}/>
+        <Route path="/bank" element={<PrivateRoute roles={ROUTE_ROLES["/bank"]}><Layout><QuestionBankPage /></Layout></PrivateRoute>}/>
+        <Route path="/courses" element={<PrivateRoute roles={ROUTE_ROLES["/courses"]}><Layout><CoursesPage /></Layout></PrivateRoute>}/>
+        <Route path="/courses/join/:token" element={<PrivateRoute roles={ROUTE_ROLES["/courses/join/:token"]}><Layout><JoinCoursePage /></Layout></PrivateRoute>}/>
+        <Route path="/courses/:courseId" element={<PrivateRoute roles={ROUTE_ROLES["/courses/:courseId"]}><Layout><CoursePage /></Layout></PrivateRoute>}/>
+        <Route path="/quiz/:quizId/attempts/:attemptId/detail"element={<PrivateRoute roles={ROUTE_ROLES["/quiz/:quizId/attempts/:attemptId/detail"]}><Layout><AttemptDetailPage /></Layout></PrivateRoute>}/>
+        <Route path="/quiz/:quizId/attempts" element={<PrivateRoute roles={ROUTE_ROLES["/quiz/:quizId/attempts"]}><Layout><QuizAttemptsAdminPage /></Layout></PrivateRoute>}/>
+        <Route path="/gradebook" element={<PrivateRoute roles={ROUTE_ROLES["/gradebook"]}><Layout><GradebookPage /></Layout></PrivateRoute>}/>
+        <Route path="/admin"element={<PrivateRoute roles={ROUTE_ROLES["/admin"]}><Layout><AdminDashboard /></Layout></PrivateRoute>}/>
+        <Route path="/student"element={<PrivateRoute roles={ROUTE_ROLES["/student"]}><Layout><StudentDashboard /></Layout></PrivateRoute>}/>
         <Route path="/forbidden" element={<Forbidden />} />
         <Route path="*" element={<NotFound />} />
       </Routes>
@@ -0,0 +1,262 @@
+import { hasSession } from "../auth/jwt";
+import { api, ApiError, errorMessage, type AnswerValue } from "./index";
+
+/**
+ * Persistent outbox for attempt answers. Choosing an option only writes to
+ * IndexedDB; a background drain posts entries in order and retries with
+ * exponential backoff, so answers survive network drops and page reloads.
+ * Entries are keyed per question, so re-answering replaces the queued value.
+ */
+
+export type QueuedAnswer = {
+  key: string;
+  quizId: number;
+  attemptId: number;
+  questionId: number;
+  answer: AnswerValue;
+  queuedAt: number;
+};
+
+export type QueueStatus = "saved" | "pending" | "offline";
+
+export type QueueSnapshot = {
+  status: QueueStatus;
+  pending: number;
+  /** Last answer the server refused outright; it has been dropped from the queue. */
+  error: string | null;
+};
+
+const DB_NAME = "quiz-portal";
+const STORE = "pendingAnswers";
+const BASE_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 30_000;
+
+// ---- storage -------------------------------------------------------------
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+// Used when IndexedDB is unavailable (some private browsing modes).
+const memory = new Map<string, QueuedAnswer>();
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") return resolve(null);
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: "key" });
+        store.createIndex("attemptId", "attemptId");
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => resolve(null);
+    });
+  }
+  return dbPromise;
+}
+
+function done<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function store(mode: IDBTransactionMode) {
+  const db = await openDb();
+  return db ? db.transaction(STORE, mode).objectStore(STORE) : null;
+}
+
+async function putEntry(entry: QueuedAnswer) {
+  const s = await store("readwrite");
+  if (s) await done(s.put(entry));
+  else memory.set(entry.key, entry);
+}
+
+/** Removes an entry unless it was replaced by a newer answer while in flight. */
+async function removeIfUnchanged(entry: QueuedAnswer) {
+  const s = await store("readwrite");
+  if (!s) {
+    if (memory.get(entry.key)?.queuedAt === entry.queuedAt) memory.delete(entry.key);
+    return;
+  }
+  const current = await done(s.get(entry.key) as IDBRequest<QueuedAnswer | undefined>);
+  if (current?.queuedAt === entry.queuedAt) await done(s.delete(entry.key));
+}
+
+// Entries queued before question types existed only carry selectedOptionIndex.
+type StoredAnswer = Omit<QueuedAnswer, "answer"> & { answer?: AnswerValue; selectedOptionIndex?: number };
+
+function upgrade({ selectedOptionIndex, ...e }: StoredAnswer): QueuedAnswer {
+  return { ...e, answer: e.answer ?? { type: "single", selectedOptionIndex: selectedOptionIndex ?? 0 } };
+}
+
+export async function listQueued(attemptId: number): Promise<QueuedAnswer[]> {
+  const s = await store("readonly");
+  const entries = s
+    ? await done(s.index("attemptId").getAll(attemptId) as IDBRequest<StoredAnswer[]>)
+    : [...memory.values()].filter((e) => e.attemptId === attemptId);
+  return entries.map(upgrade).sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+// ---- draining ------------------------------------------------------------
+
+type AttemptState = {
+  pending: number;
+  offline: boolean;
+  error: string | null;
+  backoff: number;
+  retryTimer?: number;
+  draining: Promise<void> | null;
+  listeners: Set<() => void>;
+  snapshot: QueueSnapshot;
+};
+
+const states = new Map<number, AttemptState>();
+
+function stateFor(attemptId: number): AttemptState {
+  let st = states.get(attemptId);
+  if (!st) {
+    st = {
+      pending: 0,
+      offline: false,
+      error: null,
+      backoff: 0,
+      draining: null,
+      listeners: new Set(),
+      snapshot: { status: "saved", pending: 0, error: null },
+    };
+    states.set(attemptId, st);
+  }
+  return st;
+}
+
+function notify(st: AttemptState) {
+  const status: QueueStatus = !st.pending ? "saved" : st.offline ? "offline" : "pending";
+  st.snapshot = { status, pending: st.pending, error: st.error };
+  st.listeners.forEach((l) => l());
+}
+
+// 4xx means the server will never accept this answer (e.g. the attempt was
+// already submitted). 401 is kept: the answer should go through once the
+// student signs back in.
+function isPermanent(e: unknown) {
+  return (
+    e instanceof ApiError &&
+    e.status >= 400 &&
+    e.status < 500 &&
+    ![401, 408, 429].includes(e.status)
+  );
+}
+
+function drain(attemptId: number): Promise<void> {
+  const st = stateFor(attemptId);
+  if (st.draining) return st.draining;
+
+  window.clearTimeout(st.retryTimer);
+  st.retryTimer = undefined;
+
+  st.draining = (async () => {
+    try {
+      const entries = await listQueued(attemptId);
+      st.pending = entries.length;
+      // Signed out: hold the answers until a session exists again rather than
+      // bouncing the user to /login on every retry.
+      if (entries.length && !hasSession()) throw new Error("Signed out");
+      for (const entry of entries) {
+        try {
+          await api.attempts.answer(entry.quizId, entry.attemptId, {
+            questionId: entry.questionId,
+            ...entry.answer,
+          });
+          await removeIfUnchanged(entry);
+          st.backoff = 0;
+          st.offline = false;
+        } catch (e) {
+          if (!isPermanent(e)) throw e;
+          await removeIfUnchanged(entry);
+          st.error = errorMessage(e, "An answer could not be saved");
+        }
+      }
+      st.pending = (await listQueued(attemptId)).length;
+    } catch (e) {
+      st.pending = await listQueued(attemptId).then(
+        (l) => l.length,
+        () => st.pending
+      );
+      st.offline = !navigator.onLine || !(e instanceof ApiError);
+      st.backoff = Math.min(MAX_BACKOFF_MS, st.backoff ? st.backoff * 2 : BASE_BACKOFF_MS);
+      st.retryTimer = window.setTimeout(() => drain(attemptId), st.backoff);
+    }
+  })().finally(() => {
+    st.draining = null;
+    notify(st);
+    // Answers queued while this pass was running.
+    if (st.pending && st.retryTimer === undefined) drain(attemptId);
+  });
+
+  return st.draining;
+}
+
+if (typeof window !== "undefined") {
+  window.addEventListener("online", () => {
+    states.forEach((st, attemptId) => {
+      if (st.pending) drain(attemptId);
+    });
+  });
+}
+
+// ---- public API ----------------------------------------------------------
+
+export async function enqueueAnswer(
+  quizId: number,
+  attemptId: number,
+  questionId: number,
+  answer: AnswerValue
+) {
+  const st = stateFor(attemptId);
+  await putEntry({
+    key: `${attemptId}:${questionId}`,
+    quizId,
+    attemptId,
+    questionId,
+    answer,
+    queuedAt: Date.now(),
+  });
+  st.pending = (await listQueued(attemptId)).length;
+  st.error = null;
+  notify(st);
+  drain(attemptId);
+}
+
+/**
+ * Tries to send everything queued for the attempt right now. Rejects when
+ * answers are still waiting after a failed pass, so callers don't grade an
+ * incomplete attempt.
+ */
+export async function flushAnswers(attemptId: number) {
+  const st = stateFor(attemptId);
+  // An answer changed during a pass stays queued; keep draining until the
+  // queue is empty or a pass fails and schedules a retry.
+  do {
+    await drain(attemptId);
+  } while (st.pending && st.retryTimer === undefined);
+  const { pending } = st;
+  if (pending) {
+    throw new Error(
+      `${pending} answer${pending === 1 ? " is" : "s are"} still waiting to be saved. Check your connection and try again.`
+    );
+  }
+}
+
+export function getQueueSnapshot(attemptId: number): QueueSnapshot {
+  return stateFor(attemptId).snapshot;
+}
+
+/** Subscribes to queue status and picks up answers persisted by an earlier visit. */
+export function subscribeQueue(attemptId: number, listener: () => void) {
+  const st = stateFor(attemptId);
+  st.listeners.add(listener);
+  drain(attemptId);
+  return () => {
+    st.listeners.delete(listener);
+  };
+}
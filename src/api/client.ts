@@ -0,0 +1,184 @@
+import { authHeaders, clearSession, readRefreshToken, saveSession } from "../auth/jwt";
+import type { RefreshResponse } from "./types";
+
+export const API_URL = import.meta.env.VITE_API_URL ?? "http://localhost:3000";
+
+type Method = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type RequestOptions = {
+  method?: Method;
+  body?: unknown;
+  signal?: AbortSignal;
+  /** Send the bearer token and treat 401 as an expired session. Defaults to true. */
+  auth?: boolean;
+};
+
+export class ApiError extends Error {
+  status: number;
+  body: unknown;
+
+  constructor(status: number, message: string, body?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export function isAbortError(e: unknown): boolean {
+  return e instanceof DOMException && e.name === "AbortError";
+}
+
+export function isUnauthorized(e: unknown): boolean {
+  return e instanceof ApiError && e.status === 401;
+}
+
+/** The backend predates this route; pages fall back instead of erroring. */
+export function isMissingRoute(e: unknown): boolean {
+  return e instanceof ApiError && (e.status === 404 || e.status === 501);
+}
+
+/** Message suitable for an InlineAlert, falling back when the error carries none. */
+export function errorMessage(e: unknown, fallback: string): string {
+  return e instanceof Error && e.message ? e.message : fallback;
+}
+
+let unauthorizedHandler: () => void = () => window.location.assign("/login");
+
+/**
+ * Replaces what happens after a 401 clears the session. AuthProvider registers
+ * a router navigation here so pages don't each need their own redirect.
+ */
+export function onUnauthorized(handler: () => void) {
+  const previous = unauthorizedHandler;
+  unauthorizedHandler = handler;
+  return () => {
+    unauthorizedHandler = previous;
+  };
+}
+
+async function toApiError(res: Response): Promise<ApiError> {
+  return apiError(res.status, await res.text().catch(() => ""));
+}
+
+function apiError(status: number, text: string): ApiError {
+  let message = `HTTP ${status}`;
+  let body: unknown;
+  if (text) {
+    try {
+      body = JSON.parse(text);
+      const m = (body as { message?: unknown })?.message;
+      if (Array.isArray(m)) message = m.join(", ");
+      else if (typeof m === "string" && m) message = m;
+    } catch {
+      body = text;
+      message = text;
+    }
+  }
+  return new ApiError(status, message, body);
+}
+
+let refreshing: Promise<boolean> | null = null;
+
+/**
+ * Exchanges the stored refresh token for a new access token. Concurrent callers
+ * share one in-flight exchange, so a burst of 401s triggers a single refresh
+ * and every queued request replays once it settles. Resolves false when the
+ * server rejects the refresh token; network and server errors reject instead.
+ */
+export function refreshAccessToken(): Promise<boolean> {
+  if (!refreshing) {
+    refreshing = (async () => {
+      const refreshToken = readRefreshToken();
+      if (!refreshToken) return false;
+      try {
+        const data = await send<RefreshResponse>("/auth/refresh", {
+          method: "POST",
+          body: { refresh_token: refreshToken },
+          auth: false,
+        });
+        saveSession(data.access_token, undefined, data.refresh_token ?? refreshToken);
+        return true;
+      } catch (e) {
+        // Another tab may have rotated the refresh token first; its new
+        // session is shared through localStorage, so that still counts.
+        if (readRefreshToken() !== refreshToken && !!readRefreshToken()) return true;
+        // Only the server turning the token down ends the session. A dropped
+        // connection or a 5xx reaches the caller, which can try again.
+        if (e instanceof ApiError && (e.status === 401 || e.status === 403)) return false;
+        throw e;
+      }
+    })().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+export async function request<T>(path: string, opts: RequestOptions = {}): Promise<T> {
+  return send<T>(path, opts, true);
+}
+
+async function send<T>(path: string, opts: RequestOptions, replay = false): Promise<T> {
+  const { method = "GET", body, signal, auth = true } = opts;
+
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+  if (auth) Object.assign(headers, authHeaders());
+
+  const res = await fetch(`${API_URL}${path}`, {
+    method,
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    signal,
+  });
+
+  if (res.status === 401 && auth) {
+    if (replay && (await refreshAccessToken())) return send<T>(path, opts);
+    clearSession();
+    unauthorizedHandler();
+    throw new ApiError(401, "Unauthorized");
+  }
+  if (!res.ok) throw await toApiError(res);
+  if (res.status === 204) return undefined as T;
+
+  const text = await res.text();
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+export type UploadOptions = {
+  signal?: AbortSignal;
+  /** Fraction of the body sent so far, from 0 to 1. */
+  onProgress?: (fraction: number) => void;
+};
+
+/** Multipart POST that reports upload progress, which `fetch` can't do. */
+export async function upload<T>(path: string, form: FormData, opts: UploadOptions = {}, replay = true): Promise<T> {
+  const { status, text } = await sendForm(path, form, opts);
+
+  if (status === 401) {
+    if (replay && (await refreshAccessToken())) return upload<T>(path, form, opts, false);
+    clearSession();
+    unauthorizedHandler();
+    throw new ApiError(401, "Unauthorized");
+  }
+  if (status < 200 || status >= 300) throw apiError(status, text);
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+function sendForm(path: string, form: FormData, { signal, onProgress }: UploadOptions) {
+  return new Promise<{ status: number; text: string }>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("Aborted", "AbortError"));
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `${API_URL}${path}`);
+    Object.entries(authHeaders()).forEach(([k, v]) => xhr.setRequestHeader(k, v));
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total);
+    };
+    xhr.onload = () => resolve({ status: xhr.status, text: xhr.responseText });
+    xhr.onerror = () => reject(new TypeError("Network error"));
+    xhr.onabort = () => reject(new DOMException("Aborted", "AbortError"));
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+    xhr.send(form);
+  });
+}
@@ -0,0 +1,386 @@
+import { API_URL, isMissingRoute, request, upload, type UploadOptions } from "./client";
+import type {
+  AccessCodeUse,
+  AddMembersResult,
+  AdminSummary,
+  AnswerFeedback,
+  AnswerInput,
+  AnswerResult,
+  AnswerValue,
+  Attachment,
+  Attempt,
+  AttemptAnswerDetail,
+  AttemptDetail,
+  AttemptProgress,
+  AttemptResult,
+  AttemptTimer,
+  AttemptsPerDayPoint,
+  BankFilter,
+  BankQuestion,
+  BankQuestionInput,
+  Course,
+  CourseInput,
+  CourseInvite,
+  CourseMember,
+  CourseRole,
+  DrawRule,
+  EnrolledStudent,
+  EnrollResult,
+  LoginResponse,
+  Paged,
+  ProctorEvent,
+  Question,
+  QuestionInput,
+  Quiz,
+  QuizAttemptRow,
+  QuizBrief,
+  QuizInput,
+  QuizStatus,
+  RegisterInput,
+  StudentAttempt,
+  UserRow,
+} from "./types";
+
+export {
+  API_URL,
+  ApiError,
+  errorMessage,
+  isAbortError,
+  isMissingRoute,
+  isUnauthorized,
+  onUnauthorized,
+  refreshAccessToken,
+  request,
+  type UploadOptions,
+} from "./client";
+export type * from "./types";
+
+// The backend isn't consistent about list envelopes or field names across
+// versions, so raw payloads are normalized here rather than in every page.
+type Raw = Record<string, unknown>;
+
+function toPaged<T>(data: T[] | Partial<Paged<T>>): Paged<T> {
+  if (Array.isArray(data)) return { items: data, total: data.length };
+  const items = data.items ?? [];
+  return { items, total: data.total ?? items.length };
+}
+
+function toAttemptRows({ items, total }: Paged<QuizAttemptRow & { isPractice?: boolean }>): Paged<QuizAttemptRow> {
+  return { items: items.map(({ isPractice, ...a }) => ({ ...a, practice: Boolean(a.practice ?? isPractice) })), total };
+}
+
+function toQuizBrief(q: Raw): QuizBrief {
+  return {
+    id: Number(q.id ?? q.quizId ?? 0),
+    title: (q.title as string) ?? "Untitled Quiz",
+    description: (q.description as string) ?? "",
+    category: (q.category ?? q.topic ?? null) as string | null,
+    plays: Number(q.plays ?? 0),
+    status: q.status as QuizStatus | undefined,
+    opensAt: (q.opensAt as string | null) ?? null,
+    closesAt: (q.closesAt as string | null) ?? null,
+  };
+}
+
+// Questions and answers from before question types existed have no `type`
+// and are single-choice.
+function toQuestion(q: Raw): Question {
+  const base = { id: Number(q.id ?? 0), text: (q.text as string) ?? "" };
+  if (q.type && q.type !== "single") return { ...q, ...base } as Question;
+  return {
+    ...(q as Partial<Question>),
+    ...base,
+    type: "single",
+    options: (q.options as string[]) ?? [],
+    correctOptionIndex: q.correctOptionIndex as number | undefined,
+  };
+}
+
+function toBankQuestion(q: Raw): BankQuestion {
+  return {
+    ...toQuestion(q),
+    tags: Array.isArray(q.tags) ? (q.tags as string[]) : [],
+    difficulty: (q.difficulty as BankQuestion["difficulty"]) ?? "medium",
+  };
+}
+
+function toAnswer<T extends AnswerValue>(a: Raw): T {
+  return (a.type ? a : { ...a, type: "single", selectedOptionIndex: Number(a.selectedOptionIndex) }) as T;
+}
+
+function toAttachment(a: Raw, file: File): Attachment {
+  return {
+    url: String(a.url ?? a.path ?? ""),
+    alt: "",
+    mimeType: (a.mimeType as string) ?? (a.mimetype as string) ?? file.type,
+    name: (a.name as string) ?? (a.originalName as string) ?? file.name,
+    size: Number(a.size ?? file.size),
+  };
+}
+
+/** Uploaded media URLs are relative to the API unless the server made them absolute. */
+export function mediaUrl(url: string) {
+  return /^(https?:|data:|blob:)/.test(url) ? url : `${API_URL}${url.startsWith("/") ? "" : "/"}${url}`;
+}
+
+type WithRawAnswers<T> = Omit<T, "answers"> & { answers?: Raw[] };
+
+function toStudentAttempts(raw: unknown): StudentAttempt[] {
+  if (!raw) return [];
+  if (!Array.isArray(raw)) {
+    const data = (raw as { data?: unknown }).data;
+    return Array.isArray(data) ? toStudentAttempts(data) : [];
+  }
+  return raw.map((a: Raw) => {
+    const quiz = a.quiz as { id: number; title: string } | undefined;
+    return {
+      id: a.id as number,
+      quizId: quiz?.id ?? (a.quizId as number),
+      quizTitle: quiz?.title ?? (a.quizTitle as string),
+      score: a.score as number,
+      total: a.total as number,
+      startedAt: a.startedAt as string,
+      submittedAt: a.submittedAt as string | null | undefined,
+      practice: Boolean(a.practice ?? a.isPractice),
+    };
+  });
+}
+
+type Opts = { signal?: AbortSignal };
+
+const pageQuery = (query: string, page: number, limit: number) =>
+  `query=${encodeURIComponent(query)}&page=${page}&limit=${limit}`;
+
+export const api = {
+  auth: {
+    login: (email: string, password: string) =>
+      request<LoginResponse>("/auth/login", {
+        method: "POST",
+        body: { email, password },
+        auth: false,
+      }),
+    register: (input: RegisterInput) =>
+      request<unknown>("/users/register", { method: "POST", body: input, auth: false }),
+  },
+
+  /** Unauthenticated quiz listings used by the landing page. */
+  catalog: {
+    popular: (o?: Opts) =>
+      request<Raw[]>("/quiz/popular", { ...o, auth: false }).then((r) => (r ?? []).map(toQuizBrief)),
+    allWithPlays: (o?: Opts) =>
+      request<Raw[]>("/quiz/all-with-plays", { ...o, auth: false }).then((r) => (r ?? []).map(toQuizBrief)),
+    all: (o?: Opts) =>
+      request<Raw[]>("/quiz/all", { ...o, auth: false }).then((r) => (r ?? []).map(toQuizBrief)),
+    search: (q: string, o?: Opts) =>
+      request<Raw[]>(`/quiz/search?q=${encodeURIComponent(q)}`, { ...o, auth: false }).then((r) =>
+        (r ?? []).map(toQuizBrief)
+      ),
+  },
+
+  quiz: {
+    all: (o?: Opts) => request<Quiz[]>("/quiz/all", o).then((r) => (Array.isArray(r) ? r : [])),
+    get: (quizId: number, o?: Opts) => request<Quiz>(`/quiz/${quizId}`, o),
+    create: (input: QuizInput) => request<Quiz>("/quiz/create", { method: "POST", body: input }),
+    update: (quizId: number, input: Partial<QuizInput>) =>
+      request<Quiz>(`/quiz/${quizId}`, { method: "PATCH", body: input }),
+    remove: (quizId: number) => request<void>(`/quiz/${quizId}`, { method: "DELETE" }),
+    questions: (quizId: number, o?: Opts) =>
+      request<Raw[]>(`/quiz/${quizId}/questions`, o).then((r) => (r ?? []).map(toQuestion)),
+    addQuestion: (quizId: number, input: QuestionInput) =>
+      request<Raw>(`/quiz/${quizId}/questions`, { method: "POST", body: input }).then(toQuestion),
+    updateQuestion: (quizId: number, questionId: number, input: QuestionInput) =>
+      request<Raw>(`/quiz/${quizId}/questions/${questionId}`, { method: "PATCH", body: input }).then(toQuestion),
+    removeQuestion: (quizId: number, questionId: number) =>
+      request<void>(`/quiz/${quizId}/questions/${questionId}`, { method: "DELETE" }),
+    /** Makes a draft visible to students; the server re-checks it has valid questions. */
+    publish: (quizId: number) => request<Quiz>(`/quiz/${quizId}/publish`, { method: "POST" }),
+    /** Back to draft, hidden from students. */
+    unpublish: (quizId: number) => request<Quiz>(`/quiz/${quizId}/unpublish`, { method: "POST" }),
+    archive: (quizId: number) => request<Quiz>(`/quiz/${quizId}/archive`, { method: "POST" }),
+    /** Replaces the quiz's bank draw; an empty list turns random drawing off. */
+    setDrawRules: (quizId: number, rules: DrawRule[]) =>
+      request<void>(`/quiz/${quizId}/draw`, { method: "PUT", body: { rules } }),
+    /** Persists the full question order; `questionIds` must list every question once. */
+    reorderQuestions: (quizId: number, questionIds: number[]) =>
+      request<void>(`/quiz/${quizId}/questions/order`, { method: "PUT", body: { questionIds } }),
+    /** Replaces the access code; the old one stops working straight away. */
+    regenerateCode: (quizId: number) => request<Quiz>(`/quiz/${quizId}/access-code`, { method: "POST" }),
+    codeUses: (quizId: number, o?: Opts) =>
+      request<AccessCodeUse[]>(`/quiz/${quizId}/access-code/uses`, o).then((r) => r ?? []),
+    enrollment: (quizId: number, o?: Opts) =>
+      request<EnrolledStudent[]>(`/quiz/${quizId}/enrollment`, o).then((r) => r ?? []),
+    /** Adds students by email; emails without an account come back in `notFound`. */
+    enroll: (quizId: number, emails: string[]) =>
+      request<Partial<EnrollResult>>(`/quiz/${quizId}/enrollment`, { method: "POST", body: { emails } }).then(
+        (r): EnrollResult => ({ enrolled: r?.enrolled ?? [], notFound: r?.notFound ?? [] })
+      ),
+    unenroll: (quizId: number, studentId: number) =>
+      request<void>(`/quiz/${quizId}/enrollment/${studentId}`, { method: "DELETE" }),
+  },
+
+  courses: {
+    /** Courses the signed-in user teaches, assists in or is enrolled in. */
+    list: (o?: Opts) => request<Course[]>("/courses", o).then((r) => r ?? []),
+    get: (courseId: number, o?: Opts) => request<Course>(`/courses/${courseId}`, o),
+    create: (input: CourseInput) => request<Course>("/courses", { method: "POST", body: input }),
+    update: (courseId: number, input: Partial<CourseInput>) =>
+      request<Course>(`/courses/${courseId}`, { method: "PATCH", body: input }),
+    quizzes: (courseId: number, o?: Opts) =>
+      request<Quiz[]>(`/courses/${courseId}/quizzes`, o).then((r) => (Array.isArray(r) ? r : [])),
+    members: (courseId: number, o?: Opts) =>
+      request<CourseMember[]>(`/courses/${courseId}/members`, o).then((r) => r ?? []),
+    /** Adds existing accounts by email; emails without one come back in `notFound`. */
+    addMembers: (courseId: number, emails: string[], role: CourseRole) =>
+      request<Partial<AddMembersResult>>(`/courses/${courseId}/members`, {
+        method: "POST",
+        body: { emails, role },
+      }).then((r): AddMembersResult => ({ members: r?.members ?? [], notFound: r?.notFound ?? [] })),
+    setMemberRole: (courseId: number, userId: number, role: CourseRole) =>
+      request<CourseMember>(`/courses/${courseId}/members/${userId}`, { method: "PATCH", body: { role } }),
+    removeMember: (courseId: number, userId: number) =>
+      request<void>(`/courses/${courseId}/members/${userId}`, { method: "DELETE" }),
+    /** A fresh join link for `role`; earlier links keep working. */
+    createInvite: (courseId: number, role: CourseRole) =>
+      request<CourseInvite>(`/courses/${courseId}/invites`, { method: "POST", body: { role } }),
+    join: (token: string, o?: Opts) => request<Course>("/courses/join", { ...o, method: "POST", body: { token } }),
+    /** Every attempt on the course's quizzes; staff only. */
+    attempts: (courseId: number, o?: Opts) =>
+      request<QuizAttemptRow[] | Partial<Paged<QuizAttemptRow>>>(`/courses/${courseId}/attempts`, o).then(
+        (r) => toAttemptRows(toPaged(r ?? [])).items
+      ),
+  },
+
+  uploads: {
+    /** Stores the file with the backend's local storage; `alt` is left for the caller to fill in. */
+    create: (file: File, o?: UploadOptions) => {
+      const form = new FormData();
+      form.append("file", file);
+      return upload<Raw>("/uploads", form, o).then((r) => toAttachment(r ?? {}, file));
+    },
+  },
+
+  /** The signed-in instructor's question bank. */
+  bank: {
+    list: (filter: BankFilter = {}, o?: Opts) => {
+      const params = new URLSearchParams();
+      if (filter.tag) params.set("tag", filter.tag);
+      if (filter.difficulty) params.set("difficulty", filter.difficulty);
+      if (filter.query) params.set("query", filter.query);
+      const qs = params.toString();
+      return request<Raw[]>(`/bank/questions${qs ? `?${qs}` : ""}`, o).then((r) => (r ?? []).map(toBankQuestion));
+    },
+    tags: (o?: Opts) => request<string[]>("/bank/tags", o).then((r) => r ?? []),
+    create: (input: BankQuestionInput) =>
+      request<Raw>("/bank/questions", { method: "POST", body: input }).then(toBankQuestion),
+    update: (questionId: number, input: BankQuestionInput) =>
+      request<Raw>(`/bank/questions/${questionId}`, { method: "PATCH", body: input }).then(toBankQuestion),
+    remove: (questionId: number) => request<void>(`/bank/questions/${questionId}`, { method: "DELETE" }),
+  },
+
+  attempts: {
+    /** `accessCode` is required by, and checked against, quizzes with code access. */
+    start: (quizId: number, accessCode?: string) =>
+      request<Attempt>(`/quiz/${quizId}/attempts`, {
+        method: "POST",
+        body: accessCode === undefined ? undefined : { accessCode },
+      }),
+    list: (quizId: number, page: number, limit: number, o?: Opts) =>
+      request<Paged<QuizAttemptRow>>(`/quiz/${quizId}/attempts?page=${page}&limit=${limit}`, o)
+        .then(toPaged)
+        .then(toAttemptRows),
+    /** Every attempt on a quiz, fetched page by page. */
+    listAll: async (quizId: number, o?: Opts) => {
+      const items: QuizAttemptRow[] = [];
+      for (let page = 1; ; page++) {
+        const p = await api.attempts.list(quizId, page, 100, o);
+        items.push(...p.items);
+        if (!p.items.length || items.length >= p.total) return items;
+      }
+    },
+    answer: (quizId: number, attemptId: number, input: AnswerInput) =>
+      request<unknown>(`/quiz/${quizId}/attempts/${attemptId}/answers`, { method: "POST", body: input }),
+    /** Marks one saved answer before submission; only allowed when the quiz gives feedback immediately. */
+    feedback: (quizId: number, attemptId: number, questionId: number, o?: Opts) =>
+      request<AnswerFeedback>(`/quiz/${quizId}/attempts/${attemptId}/answers/${questionId}/feedback`, o),
+    result: (quizId: number, attemptId: number, o?: Opts) =>
+      request<WithRawAnswers<AttemptResult>>(`/quiz/${quizId}/attempts/${attemptId}/result`, o).then(
+        (r): AttemptResult => ({ ...r, answers: (r.answers ?? []).map(toAnswer<AnswerResult>) })
+      ),
+    /**
+     * The questions this attempt was dealt, including its bank draw. Backends
+     * without per-attempt sets serve everyone the quiz's own questions.
+     */
+    questions: (quizId: number, attemptId: number, o?: Opts) =>
+      request<Raw[]>(`/quiz/${quizId}/attempts/${attemptId}/questions`, o).then(
+        (r) => (r ?? []).map(toQuestion),
+        (e) => {
+          if (isMissingRoute(e)) return api.quiz.questions(quizId, o);
+          throw e;
+        }
+      ),
+    progress: (quizId: number, attemptId: number, o?: Opts) =>
+      request<WithRawAnswers<AttemptProgress>>(`/quiz/${quizId}/attempts/${attemptId}/progress`, o).then(
+        (p): AttemptProgress => ({ ...p, answers: (p.answers ?? []).map(toAnswer<AnswerInput>) })
+      ),
+    savePosition: (quizId: number, attemptId: number, questionId: number) =>
+      request<void>(`/quiz/${quizId}/attempts/${attemptId}/progress`, {
+        method: "PATCH",
+        body: { lastQuestionId: questionId },
+      }),
+    timer: (quizId: number, attemptId: number, o?: Opts) =>
+      request<AttemptTimer>(`/quiz/${quizId}/attempts/${attemptId}/timer`, o),
+    detail: (quizId: number, attemptId: number, o?: Opts) =>
+      request<WithRawAnswers<AttemptDetail>>(`/quiz/${quizId}/attempts/${attemptId}/detail`, o).then(
+        (d): AttemptDetail => ({
+          ...d,
+          answers: (d.answers ?? []).map((a) => ({
+            ...toAnswer<AttemptAnswerDetail>(a),
+            question: a.question ? toQuestion(a.question as Raw) : undefined,
+          })),
+        })
+      ),
+    mine: (o?: Opts) => request<unknown>("/quiz/student/attempts", o).then(toStudentAttempts),
+    logEvents: (quizId: number, attemptId: number, events: ProctorEvent[]) =>
+      request<unknown>(`/quiz/${quizId}/attempts/${attemptId}/events`, { method: "POST", body: { events } }),
+    events: (quizId: number, attemptId: number, o?: Opts) =>
+      request<ProctorEvent[] | { items?: ProctorEvent[] }>(`/quiz/${quizId}/attempts/${attemptId}/events`, o).then(
+        (r) => toPaged(r).items
+      ),
+  },
+
+  admin: {
+    summary: (o?: Opts) => request<AdminSummary>("/quiz/admin/summary", o),
+    recentQuizzes: (o?: Opts) => request<Quiz[]>("/quiz/admin/recent-quizzes", o),
+    topQuizzes: (o?: Opts) =>
+      request<Raw[]>("/quiz/admin/top-quizzes", o).then((raw) =>
+        (raw ?? []).map(
+          (r): Quiz => ({
+            id: (r.id ?? r.quizId) as number,
+            title: (r.title as string) ?? `Quiz ${r.id ?? r.quizId ?? "—"}`,
+            attemptsCount: (r.attemptsCount ?? r.attempts ?? 0) as number,
+          })
+        )
+      ),
+    attemptsPerDay: (days: number, o?: Opts) =>
+      request<Raw[]>(`/quiz/admin/attempts-per-day?days=${days}`, o).then((raw) =>
+        (raw ?? []).map(
+          (r): AttemptsPerDayPoint => ({
+            date: (r.date ?? r.day ?? "") as string,
+            attempts: (r.attempts ?? r.count ?? 0) as number,
+          })
+        )
+      ),
+    quizzes: (query: string, page: number, limit: number, o?: Opts) =>
+      request<Quiz[] | Paged<Quiz>>(`/quiz?${pageQuery(query, page, limit)}`, o).then(toPaged),
+    createQuiz: (input: QuizInput) => request<Quiz>("/quiz", { method: "POST", body: input }),
+    updateQuiz: (quizId: number, input: QuizInput) =>
+      request<Quiz>(`/quiz/${quizId}`, { method: "PUT", body: input }),
+    deleteQuiz: (quizId: number) => request<void>(`/quiz/${quizId}`, { method: "DELETE" }),
+  },
+
+  users: {
+    list: (query: string, page: number, limit: number, o?: Opts) =>
+      request<UserRow[] | Paged<UserRow>>(`/users?${pageQuery(query, page, limit)}`, o).then(toPaged),
+    remove: (userId: number) => request<void>(`/users/${userId}`, { method: "DELETE" }),
+  },
+};
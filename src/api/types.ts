@@ -0,0 +1,428 @@
+import type { Role } from "../auth/jwt";
+
+export type Paged<T> = { items: T[]; total: number };
+
+export type SessionUser = {
+  userId?: number;
+  id?: number;
+  email?: string;
+  name?: string;
+  role?: Role;
+};
+
+export type LoginResponse = {
+  access_token: string;
+  refresh_token?: string;
+  user?: SessionUser;
+};
+
+export type RefreshResponse = {
+  access_token: string;
+  refresh_token?: string;
+};
+
+export type RegisterInput = {
+  name: string;
+  email: string;
+  password: string;
+  role: Role;
+};
+
+/**
+ * Draft and archived are set by the instructor; a published quiz is scheduled,
+ * open or closed depending on `opensAt`/`closesAt`.
+ */
+export type QuizStatus = "draft" | "scheduled" | "open" | "closed" | "archived";
+
+/** Which attempt's score counts when a student has several. */
+export type ScoringPolicy = "best" | "latest" | "average";
+
+/**
+ * Practice quizzes check each answer as it's given, allow retries and never
+ * count toward grades. Everything else is an exam.
+ */
+export type QuizMode = "exam" | "practice";
+
+/**
+ * Who may start a quiz. "code" quizzes are listed to every student but need
+ * the access code to start; "enrolled" quizzes are only listed to, and
+ * startable by, the students on the quiz's roster.
+ */
+export type QuizAccess = "open" | "code" | "enrolled";
+
+/** When students see the answer key, explanations and option feedback. */
+export type FeedbackTiming = "immediate" | "after_submit" | "after_close";
+
+/** Publishing fields shared by full quizzes and catalog entries. */
+export type QuizSchedule = {
+  /** Absent on quizzes from before publishing existed; those count as open. */
+  status?: QuizStatus;
+  opensAt?: string | null;
+  closesAt?: string | null;
+};
+
+export type Quiz = QuizSchedule & {
+  id: number;
+  title: string;
+  description?: string;
+  category?: string | null;
+  createdAt?: string;
+  createdBy?: { id: number; email: string };
+  attemptsCount?: number;
+  /** Minutes a student has once an attempt starts; null or absent means untimed. */
+  timeLimitMinutes?: number | null;
+  /** Random draw from the question bank, added to the quiz's own questions. */
+  drawRules?: DrawRule[];
+  /** Question and option order are shuffled per attempt, seeded by the attempt id. */
+  shuffleQuestions?: boolean;
+  shuffleOptions?: boolean;
+  /** null or absent means unlimited. */
+  maxAttempts?: number | null;
+  /** Minimum wait after an attempt before starting the next one. */
+  attemptCooldownMinutes?: number | null;
+  /** Defaults to "best". */
+  scoringPolicy?: ScoringPolicy;
+  /** Percentage of the possible points needed to pass; defaults to 50. */
+  passMark?: number;
+  /**
+   * Share of a question's points (0–1) taken off for a wrong answer.
+   * Unanswered questions never cost points. null or absent turns it off.
+   */
+  negativeMarking?: number | null;
+  /** Defaults to "after_submit"; practice quizzes always give it immediately. */
+  feedbackTiming?: FeedbackTiming;
+  /** Defaults to "exam". */
+  mode?: QuizMode;
+  /** Students are warned, and tab switches, focus loss, copy/paste and right-clicks are logged. */
+  monitored?: boolean;
+  /** Defaults to "open". */
+  access?: QuizAccess;
+  /** Only sent to the quiz's authors; students type it in to start. */
+  accessCode?: string | null;
+  /** The course the quiz belongs to; "enrolled" access then means the course's students. */
+  courseId?: number | null;
+};
+
+export type QuizInput = {
+  title: string;
+  description?: string;
+  category?: string | null;
+  timeLimitMinutes?: number | null;
+  shuffleQuestions?: boolean;
+  shuffleOptions?: boolean;
+  opensAt?: string | null;
+  closesAt?: string | null;
+  maxAttempts?: number | null;
+  attemptCooldownMinutes?: number | null;
+  scoringPolicy?: ScoringPolicy;
+  passMark?: number;
+  negativeMarking?: number | null;
+  feedbackTiming?: FeedbackTiming;
+  mode?: QuizMode;
+  monitored?: boolean;
+  access?: QuizAccess;
+  courseId?: number | null;
+};
+
+export type QuizBrief = QuizSchedule & {
+  id: number;
+  title: string;
+  description?: string | null;
+  category?: string | null;
+  plays?: number;
+};
+
+export type QuestionType = "single" | "multi" | "truefalse" | "numeric" | "text" | "ordering";
+
+/** An uploaded file, served by the backend's local media storage. */
+export type Attachment = {
+  /** Absolute, or relative to the API (`/uploads/…`); resolve with `mediaUrl`. */
+  url: string;
+  /** Required for images. Other files use it as their link text. */
+  alt: string;
+  mimeType: string;
+  name?: string;
+  size?: number;
+  width?: number;
+  height?: number;
+};
+
+/**
+ * Type-specific part of a question. Answer keys (`correct*`, `acceptedAnswers`)
+ * and feedback only reach students once the quiz's feedback timing allows, so
+ * they are optional here.
+ */
+export type QuestionBody =
+  /**
+   * `optionImages` and `optionFeedback` run parallel to `options`; null or ""
+   * where an option has none. Feedback is shown to students who picked that option.
+   */
+  | {
+      type: "single";
+      options: string[];
+      optionImages?: (Attachment | null)[];
+      optionFeedback?: string[];
+      correctOptionIndex?: number;
+    }
+  /** With `partialCredit`, each right pick earns a share of the points and each wrong pick costs one. */
+  | {
+      type: "multi";
+      options: string[];
+      optionImages?: (Attachment | null)[];
+      optionFeedback?: string[];
+      correctOptionIndexes?: number[];
+      partialCredit?: boolean;
+    }
+  | { type: "truefalse"; correctValue?: boolean }
+  | { type: "numeric"; correctValue?: number; tolerance?: number }
+  | { type: "text"; acceptedAnswers?: string[]; matchMode?: "exact" | "regex"; caseSensitive?: boolean }
+  /** `correctOrder` lists indexes into `items` in the right sequence. */
+  | { type: "ordering"; items: string[]; correctOrder?: number[] };
+
+/**
+ * `points` is the question's weight and defaults to 1. `attachments` are diagrams
+ * or files shown with the text. `explanation` (Markdown) says why the key is right.
+ */
+export type Question = {
+  id: number;
+  text: string;
+  points?: number;
+  attachments?: Attachment[];
+  explanation?: string;
+} & QuestionBody;
+
+export type QuestionInput = {
+  text: string;
+  points?: number;
+  attachments?: Attachment[];
+  explanation?: string;
+} & QuestionBody;
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+/** A question in an instructor's bank, reusable across quizzes through draw rules. */
+export type BankQuestion = Question & { tags: string[]; difficulty: Difficulty };
+
+export type BankQuestionInput = QuestionInput & { tags: string[]; difficulty: Difficulty };
+
+export type BankFilter = { tag?: string; difficulty?: Difficulty; query?: string };
+
+/**
+ * Draws questions from the author's bank for every new attempt: `counts` says
+ * how many of each difficulty to take from questions tagged `tag` (any tag when null).
+ */
+export type DrawRule = { tag: string | null; counts: Record<Difficulty, number> };
+
+export type Attempt = { id: number };
+
+/** A student's answer; its shape follows the question's type. */
+export type AnswerValue =
+  | { type: "single"; selectedOptionIndex: number }
+  | { type: "multi"; selectedOptionIndexes: number[] }
+  | { type: "truefalse"; value: boolean }
+  | { type: "numeric"; value: number }
+  | { type: "text"; value: string }
+  /** Indexes into the question's `items`, in the order the student arranged them. */
+  | { type: "ordering"; order: number[] };
+
+/**
+ * Answer fields sit next to `questionId`, so a single-choice answer keeps the
+ * original `{ questionId, selectedOptionIndex }` wire shape.
+ */
+export type AnswerInput = { questionId: number } & AnswerValue;
+
+/**
+ * Points for one graded answer. Older backends only send `isCorrect`, which
+ * counts as 1 or 0 out of 1.
+ */
+export type AnswerMarks = {
+  /** Negative under negative marking; between 0 and `maxPoints` with partial credit. */
+  points?: number;
+  maxPoints?: number;
+};
+
+/** The pass verdict; `score` and `total` are points, which equal question counts when every weight is 1. */
+export type PassInfo = {
+  passMark?: number;
+  passed?: boolean;
+};
+
+/** How one answer was marked, with whatever the quiz's feedback timing reveals. */
+export type AnswerFeedback = AnswerMarks & {
+  isCorrect: boolean;
+  /** Sent by backends that reveal the key after submission. */
+  correctAnswer?: AnswerValue;
+  explanation?: string;
+  /** Option feedback for the student's pick(s). */
+  feedback?: string[];
+};
+
+export type AnswerResult = AnswerInput & AnswerFeedback;
+
+export type AttemptResult = {
+  attemptId: number;
+  quizId: number;
+  studentId: number;
+  score: number;
+  total: number;
+  answers: AnswerResult[];
+  startedAt: string;
+  submittedAt?: string | null;
+} & PassInfo;
+
+/** Saved state of an attempt, used to resume it after a reload or on another device. */
+export type AttemptProgress = {
+  id: number;
+  quizId: number;
+  startedAt?: string;
+  submittedAt?: string | null;
+  answers: AnswerInput[];
+  lastQuestionId?: number | null;
+};
+
+/** Server-side clock for an attempt; `deadline` is null for untimed quizzes. */
+export type AttemptTimer = {
+  startedAt: string;
+  deadline: string | null;
+  serverTime: string;
+};
+
+export type AttemptAnswerDetail = AnswerValue & AnswerMarks & {
+  id: number;
+  question?: Question;
+  isCorrect: boolean;
+};
+
+export type AttemptDetail = {
+  id: number;
+  quizId: number;
+  studentId: number;
+  student?: { id: number; email?: string; name?: string };
+  score: number;
+  total: number;
+  answers: AttemptAnswerDetail[];
+  startedAt?: string;
+  submittedAt?: string;
+} & PassInfo;
+
+export type QuizAttemptRow = {
+  id: number;
+  quizId: number;
+  studentId: number;
+  student?: { id: number; email: string };
+  score?: number;
+  total?: number;
+  passed?: boolean;
+  startedAt?: string;
+  submittedAt?: string | null;
+  /** Taken in practice mode; never counts toward grades. */
+  practice?: boolean;
+  /** Proctoring events logged during a monitored attempt. */
+  eventCount?: number;
+};
+
+export type ProctorEventType =
+  | "tab_hidden"
+  | "tab_visible"
+  | "window_blur"
+  | "window_focus"
+  | "copy"
+  | "cut"
+  | "paste"
+  | "context_menu"
+  | "fullscreen_exit"
+  | "fullscreen_enter";
+
+/** Something the browser noticed during a monitored attempt. */
+export type ProctorEvent = {
+  type: ProctorEventType;
+  /** Client time, ISO. */
+  at: string;
+  /** The question on screen at the time. */
+  questionId?: number | null;
+};
+
+/** Instructors run a course, TAs see its roster and grades, students take its quizzes. */
+export type CourseRole = "instructor" | "ta" | "student";
+
+export type Course = {
+  id: number;
+  title: string;
+  /** Short registrar code, e.g. "CS101". */
+  code?: string | null;
+  description?: string | null;
+  createdAt?: string;
+  /** The signed-in user's role in the course. */
+  role?: CourseRole;
+  memberCount?: number;
+  quizCount?: number;
+};
+
+export type CourseInput = {
+  title: string;
+  code?: string | null;
+  description?: string | null;
+};
+
+export type CourseMember = {
+  id: number;
+  email: string;
+  name?: string;
+  role: CourseRole;
+  joinedAt?: string;
+};
+
+export type AddMembersResult = {
+  /** The full roster after the change. */
+  members: CourseMember[];
+  /** Emails with no account behind them. */
+  notFound: string[];
+};
+
+/** A join link; anyone signed in who opens it joins with `role`. */
+export type CourseInvite = {
+  token: string;
+  role: CourseRole;
+  expiresAt?: string | null;
+};
+
+/** A student on an "enrolled" quiz's roster. */
+export type EnrolledStudent = {
+  id: number;
+  email: string;
+  name?: string;
+  enrolledAt?: string;
+};
+
+export type EnrollResult = {
+  /** The full roster after the change. */
+  enrolled: EnrolledStudent[];
+  /** Emails with no student account behind them. */
+  notFound: string[];
+};
+
+/** A student starting an attempt with a quiz's access code. */
+export type AccessCodeUse = {
+  student: { id: number; email: string; name?: string };
+  usedAt: string;
+  attemptId?: number;
+};
+
+export type StudentAttempt = {
+  id: number;
+  quizId: number;
+  quizTitle: string;
+  score: number;
+  total: number;
+  startedAt: string;
+  /** null while the attempt is in progress; absent from backends that don't report it. */
+  submittedAt?: string | null;
+  /** Taken in practice mode; never counts toward grades. */
+  practice?: boolean;
+};
+
+export type AdminSummary = { users: number; quizzes: number; attempts: number };
+
+export type AttemptsPerDayPoint = { date: string; attempts: number };
+
+export type UserRow = { id: number; email: string; name?: string | null; role?: string };
@@ -1,6 +1,18 @@
-import { createContext, useContext, useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
-import { clearSession, readJwt, saveSession, type Role } from "./jwt";
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import {
+  clearSession,
+  onSessionChange,
+  readJwt,
+  readRefreshToken,
+  saveSession,
+  tokenExpiry,
+  type Role,
+} from "./jwt";
+import { canVisit, roleHome } from "./routeAccess";
+import { api, onUnauthorized, refreshAccessToken } from "../api";
+import SessionExpiryDialog from "../components/SessionExpiryDialog";
+import SessionSwitchedDialog from "../components/SessionSwitchedDialog";
 
 type User = {
   userId: number;
@@ -12,63 +24,142 @@ type User = {
 type Ctx = {
   user: User;
   hydrating: boolean;
-  signIn: (email: string, password: string) => Promise<void>;
+  /** Signs in and goes to `from` when the role may visit it, else the role's home. */
+  signIn: (email: string, password: string, from?: string) => Promise<void>;
   signOut: () => void;
   logout: () => void;
 };
 
-const API = import.meta.env.VITE_API_URL ?? "http://localhost:3000";
 const AuthCtx = createContext<Ctx>(null!);
 
+// Silent refresh runs a little before the warning so a working refresh token
+// means the student never sees the dialog.
+const REFRESH_LEAD_MS = 3 * 60_000;
+const WARNING_LEAD_MS = 2 * 60_000;
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const SESSION_KEYS = ["token", "user", "refreshToken"];
+
+function readStoredUser(): User {
+  if (!localStorage.getItem("token")) return null;
+  try {
+    const rawUser = localStorage.getItem("user");
+    if (rawUser) {
+      const parsed = JSON.parse(rawUser);
+      return {
+        userId: parsed.userId ?? parsed.id ?? 0,
+        email: parsed.email ?? "",
+        name: parsed.name ?? "",
+        role: parsed.role as Role,
+      };
+    }
+  } catch {
+    return null;
+  }
+  const payload = readJwt();
+  if (!payload?.email || !payload?.role) return null;
+  return {
+    userId: (payload.sub as number) ?? 0,
+    email: payload.email,
+    name: payload.name ?? "",
+    role: payload.role,
+  };
+}
+
+function schedule(at: number, fn: () => void): number | undefined {
+  const delay = Math.max(0, at - Date.now());
+  return delay <= MAX_TIMEOUT_MS ? window.setTimeout(fn, delay) : undefined;
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User>(null);
   const [hydrating, setHydrating] = useState(true);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [expiryWarning, setExpiryWarning] = useState(false);
+  const [refreshRejected, setRefreshRejected] = useState(false);
+  const [switchedTo, setSwitchedTo] = useState<User>(null);
   const nav = useNavigate();
+  const location = useLocation();
+  const here = useRef("");
+
+  useEffect(() => {
+    here.current = location.pathname + location.search + location.hash;
+  }, [location]);
+
+  // Sends the user to /login while remembering where they were, for sessions
+  // that ended without them asking (expiry, 401, logout in another tab).
+  const endSession = useCallback(() => {
+    setUser(null);
+    const from = here.current.startsWith("/login") ? undefined : here.current;
+    nav("/login", { replace: true, state: { from } });
+  }, [nav]);
+
+  useEffect(
+    () =>
+      onSessionChange(() => {
+        setExpiresAt(tokenExpiry());
+        setExpiryWarning(false);
+        setRefreshRejected(false);
+      }),
+    []
+  );
+
+  useEffect(() => onUnauthorized(endSession), [endSession]);
 
   useEffect(() => {
-    try {
-      const rawUser = localStorage.getItem("user");
-      if (rawUser) {
-        const parsed = JSON.parse(rawUser);
-        setUser({
-          userId: parsed.userId ?? parsed.id ?? 0,
-          email: parsed.email ?? "",
-          name: parsed.name ?? "",
-          role: parsed.role as Role,
-        });
-      } else {
-        const payload = readJwt();
-        if (payload?.exp && Date.now() / 1000 > payload.exp) {
+    (async () => {
+      try {
+        if (localStorage.getItem("token") && !readJwt() && !(await refreshAccessToken())) {
           clearSession();
-          setUser(null);
-        } else if (payload?.email && payload?.role) {
-          setUser({
-            userId: (payload.sub as number) ?? 0,
-            email: payload.email,
-            name: payload.name ?? "",
-            role: payload.role,
-          });
+          return;
         }
+        setUser(readStoredUser());
+      } catch {
+        // The refresh couldn't reach the server. Keep the stored session; the
+        // next request refreshes again.
+        setUser(readStoredUser());
+      } finally {
+        setExpiresAt(tokenExpiry());
+        setHydrating(false);
       }
-    } catch {
-    } finally {
-      setHydrating(false);
-    }
+    })();
   }, []);
 
-  async function signIn(email: string, password: string) {
-    const res = await fetch(`${API}/auth/login`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ email, password }),
-    });
-    if (!res.ok) {
-      const j = await res.json().catch(() => ({}));
-      throw new Error(j?.message || "Login failed");
+  // Another tab wrote the session. localStorage "storage" events only fire in
+  // the other tabs, and a login writes several keys, so settle briefly first.
+  useEffect(() => {
+    if (hydrating) return;
+    let pending: number | undefined;
+    function onStorage(e: StorageEvent) {
+      if (e.key !== null && !SESSION_KEYS.includes(e.key)) return;
+      window.clearTimeout(pending);
+      pending = window.setTimeout(() => {
+        const next = readStoredUser();
+        setExpiresAt(tokenExpiry());
+        setExpiryWarning(false);
+        if (!next) {
+          if (user) endSession();
+        } else if (!user) {
+          setUser(next);
+        } else if (
+          next.userId !== user.userId ||
+          next.email !== user.email ||
+          next.role !== user.role
+        ) {
+          setSwitchedTo(next);
+        }
+      }, 50);
     }
+    window.addEventListener("storage", onStorage);
+    return () => {
+      window.removeEventListener("storage", onStorage);
+      window.clearTimeout(pending);
+    };
+  }, [hydrating, user, endSession]);
 
-    const data = await res.json();
-    saveSession(data.access_token, data.user);
+  async function signIn(email: string, password: string, from?: string) {
+    const data = await api.auth.login(email, password);
+    saveSession(data.access_token, data.user, data.refresh_token);
 
     let role: Role | undefined;
     let emailOut: string | undefined;
@@ -101,25 +192,47 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
     setUser({ userId, email: emailOut!, name: nameOut ?? "", role: role! });
 
-    switch (role) {
-      case "STUDENT":
-        nav("/student", { replace: true });
-        break;
-      case "INSTRUCTOR":
-        nav("/instructor", { replace: true });
-        break;
-      case "ADMIN":
-        nav("/admin", { replace: true });
-        break;
-      default:
-        nav("/dashboard", { replace: true });
-    }
+    nav(from && canVisit(from, role!) ? from : roleHome(role), { replace: true });
   }
 
-  function signOut() {
+  const signOut = useCallback(() => {
     clearSession();
     setUser(null);
     nav("/login", { replace: true });
+  }, [nav]);
+
+  useEffect(() => {
+    if (!user || !expiresAt) return;
+    const timers = [
+      schedule(expiresAt - WARNING_LEAD_MS, () => setExpiryWarning(true)),
+      schedule(expiresAt, () => {
+        clearSession();
+        endSession();
+      }),
+    ];
+    if (readRefreshToken()) {
+      timers.push(
+        schedule(expiresAt - REFRESH_LEAD_MS, async () => {
+          try {
+            if (!(await refreshAccessToken())) setRefreshRejected(true);
+          } catch {
+            // Offline or a server error: the expiry warning still offers another try.
+          }
+        })
+      );
+    }
+    return () => timers.forEach((t) => window.clearTimeout(t));
+  }, [user, expiresAt, endSession]);
+
+  async function extendSession(password?: string) {
+    if (password === undefined) {
+      if (await refreshAccessToken()) return;
+      setRefreshRejected(true);
+      throw new Error("Could not refresh your session. Enter your password instead.");
+    }
+    if (!user) return;
+    const data = await api.auth.login(user.email, password);
+    saveSession(data.access_token, data.user, data.refresh_token);
   }
 
   const value: Ctx = {
@@ -130,7 +243,20 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     logout: signOut,
   };
 
-  return <AuthCtx.Provider value={value}>{children}</AuthCtx.Provider>;
+  return (
+    <AuthCtx.Provider value={value}>
+      {children}
+      {switchedTo && <SessionSwitchedDialog user={switchedTo} />}
+      {!switchedTo && user && expiresAt && expiryWarning && (
+        <SessionExpiryDialog
+          expiresAt={expiresAt}
+          canRefresh={!!readRefreshToken() && !refreshRejected}
+          onExtend={extendSession}
+          onSignOut={signOut}
+        />
+      )}
+    </AuthCtx.Provider>
+  );
 }
 
 export const useAuth = () => useContext(AuthCtx);
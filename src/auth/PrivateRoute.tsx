@@ -1,8 +1,7 @@
-import { Navigate } from "react-router-dom";
+import { Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "./AuthContext";
 import React from "react";
-
-type Role = "STUDENT" | "INSTRUCTOR" | "ADMIN";
+import type { Role } from "./jwt";
 
 interface PrivateRouteProps {
   children: React.ReactNode;
@@ -11,13 +10,17 @@ interface PrivateRouteProps {
 
 export default function PrivateRoute({ children, roles }: PrivateRouteProps) {
   const { user, hydrating } = useAuth();
+  const location = useLocation();
   const token = localStorage.getItem("token");
 
   if (hydrating) return null;
 
-  if (!user || !token) return <Navigate to="/login" replace />;
+  if (!user || !token) {
+    const from = location.pathname + location.search + location.hash;
+    return <Navigate to="/login" replace state={{ from }} />;
+  }
 
-  if (roles && !roles.includes(user.role)) return <Navigate to="/dashboard" replace />;
+  if (roles && !roles.includes(user.role)) return <Navigate to="/forbidden" replace />;
 
   return <>{children}</>;
 }
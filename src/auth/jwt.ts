@@ -14,33 +14,65 @@ function decodeBase64UrlJSON<T = any>(b64url: string): T {
   return JSON.parse(json) as T;
 }
 
-export function readJwt(): JwtPayload | null {
-  const raw = localStorage.getItem("token");
+function decodeJwt(raw: string | null): JwtPayload | null {
   if (!raw) return null;
   try {
     const parts = raw.split(".");
     if (parts.length < 2) return null;
-    const payload = decodeBase64UrlJSON<JwtPayload>(parts[1]);
-    if (payload?.exp && Date.now() / 1000 > payload.exp) return null;
-    return payload;
+    return decodeBase64UrlJSON<JwtPayload>(parts[1]);
   } catch {
     return null;
   }
 }
 
+export function readJwt(): JwtPayload | null {
+  const payload = decodeJwt(localStorage.getItem("token"));
+  if (payload?.exp && Date.now() / 1000 > payload.exp) return null;
+  return payload;
+}
+
+/** Expiry of the stored access token in epoch ms, even if it has already passed. */
+export function tokenExpiry(): number | null {
+  const exp = decodeJwt(localStorage.getItem("token"))?.exp;
+  return exp ? exp * 1000 : null;
+}
+
+export function readRefreshToken(): string | null {
+  return localStorage.getItem("refreshToken");
+}
+
+/** A live access token, or a refresh token that can get one. */
+export function hasSession(): boolean {
+  return !!readJwt() || !!readRefreshToken();
+}
+
+const sessionListeners = new Set<() => void>();
+
+/** Notified whenever this tab saves or clears the session. */
+export function onSessionChange(listener: () => void) {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+}
+
 export function isExpired(payload: JwtPayload | null): boolean {
   if (!payload?.exp) return false;
   return Date.now() / 1000 > payload.exp;
 }
 
-export function saveSession(token: string, user?: any) {
+export function saveSession(token: string, user?: any, refreshToken?: string) {
   localStorage.setItem("token", token);
   if (user) localStorage.setItem("user", JSON.stringify(user));
+  if (refreshToken) localStorage.setItem("refreshToken", refreshToken);
+  sessionListeners.forEach((l) => l());
 }
 
 export function clearSession() {
   localStorage.removeItem("token");
   localStorage.removeItem("user");
+  localStorage.removeItem("refreshToken");
+  sessionListeners.forEach((l) => l());
 }
 
 export function authHeaders() {
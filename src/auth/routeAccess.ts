@@ -0,0 +1,48 @@
+import { matchPath } from "react-router-dom";
+import type { Role } from "./jwt";
+
+/**
+ * Roles allowed on each signed-in route; `undefined` means any signed-in user.
+ * App.tsx reads its guards from here so post-login redirects can check a
+ * deep link against the same rules before following it.
+ */
+export const ROUTE_ROLES = {
+  "/dashboard": undefined,
+  "/quizzes": undefined,
+  "/quiz/:quizId/take": undefined,
+  "/quiz/:quizId/attempts/:attemptId": undefined,
+  "/quiz/:quizId/attempts/:attemptId/result": undefined,
+  "/quiz/:quizId/attempts/:attemptId/detail": ["INSTRUCTOR"],
+  "/quiz/:quizId/attempts": ["INSTRUCTOR"],
+  "/gradebook": ["INSTRUCTOR"],
+  "/instructor": ["INSTRUCTOR"],
+  "/bank": ["INSTRUCTOR"],
+  "/courses": undefined,
+  "/courses/join/:token": undefined,
+  "/courses/:courseId": undefined,
+  "/admin": ["ADMIN"],
+  "/student": ["STUDENT"],
+} satisfies Record<string, Role[] | undefined>;
+
+export type PrivatePath = keyof typeof ROUTE_ROLES;
+
+export function roleHome(role?: Role): string {
+  switch (role) {
+    case "STUDENT":
+      return "/student";
+    case "INSTRUCTOR":
+      return "/instructor";
+    case "ADMIN":
+      return "/admin";
+    default:
+      return "/dashboard";
+  }
+}
+
+export function canVisit(path: string, role: Role): boolean {
+  const pathname = path.split(/[?#]/)[0];
+  for (const [pattern, roles] of Object.entries(ROUTE_ROLES)) {
+    if (matchPath(pattern, pathname)) return !roles || (roles as Role[]).includes(role);
+  }
+  return true;
+}
@@ -0,0 +1,74 @@
+import { type FormEvent, useState } from "react";
+import { errorMessage } from "../api";
+
+type Props = {
+  quizTitle: string;
+  /** Starts the attempt; rejects when the code is wrong. */
+  onSubmit: (code: string) => Promise<void>;
+  onCancel: () => void;
+};
+
+export default function AccessCodeDialog({ quizTitle, onSubmit, onCancel }: Props) {
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setErr("");
+    setBusy(true);
+    try {
+      await onSubmit(code.trim());
+    } catch (e) {
+      setErr(errorMessage(e, "That code didn't work"));
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <form
+        onSubmit={handleSubmit}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="access-code-title"
+        className="bg-[#0f172a] text-white rounded-2xl shadow-xl w-full max-w-md border border-white/10 text-left"
+      >
+        <div className="p-4 border-b border-white/10">
+          <div id="access-code-title" className="text-lg font-semibold">
+            Enter the access code
+          </div>
+        </div>
+        <div className="p-4 space-y-3">
+          <p className="text-slate-300">
+            <span className="font-medium text-white">{quizTitle}</span> is protected. Your instructor will give you
+            the code.
+          </p>
+          <input
+            autoFocus
+            autoComplete="off"
+            spellCheck={false}
+            placeholder="Access code"
+            className="w-full rounded border border-white/10 bg-white/10 px-3 py-2 font-mono tracking-wider text-white placeholder:text-slate-400 placeholder:font-sans placeholder:tracking-normal"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+          />
+          {err && <p className="text-rose-300 text-sm">{err}</p>}
+        </div>
+        <div className="p-4 border-t border-white/10 flex items-center justify-end gap-2">
+          <button type="button" className="px-3 py-1.5 rounded border border-white/10 bg-white/5" onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-3 py-1.5 rounded bg-sky-600 hover:bg-sky-500 text-white disabled:opacity-60"
+            disabled={busy || !code.trim()}
+          >
+            {busy ? "Starting…" : "Start"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
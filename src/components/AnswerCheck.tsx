@@ -0,0 +1,64 @@
+import { useState } from "react";
+import type { AnswerFeedback, AnswerValue, Question } from "../api";
+import { answerVerdict, fmtAnswerPoints } from "../utils/scoring";
+import type { PresentedQuestion } from "../utils/shuffle";
+import AnswerExplanation from "./AnswerExplanation";
+import AnswerReview from "./AnswerReview";
+
+const VERDICTS = {
+  correct: { label: "Correct", className: "text-emerald-300" },
+  partial: { label: "Partly correct", className: "text-amber-300" },
+  wrong: { label: "Incorrect", className: "text-rose-300" },
+};
+
+type Props = {
+  /** The question as authored; `answer` and `result` use its indexes. */
+  question: Question;
+  /** The same question as the student sees it, for matching option order. */
+  shown: PresentedQuestion;
+  answer: AnswerValue;
+  result: AnswerFeedback;
+  /** Practice: a wrong answer keeps the key hidden until asked for, and can be tried again. */
+  onRetry?: () => void;
+};
+
+/**
+ * Immediate feedback on one checked answer. Render it with `key={question.id}`
+ * so a revealed key doesn't carry over to the next question.
+ */
+export default function AnswerCheck({ question, shown, answer, result, onRetry }: Props) {
+  const [revealed, setRevealed] = useState(false);
+  const verdict = answerVerdict(result);
+  const retryable = !!onRetry && verdict !== "correct";
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className={`font-medium ${VERDICTS[verdict].className}`}>
+        {VERDICTS[verdict].label}{" "}
+        <span className="text-sm text-slate-400 font-normal">({fmtAnswerPoints(result)})</span>
+      </div>
+      <AnswerReview
+        question={shown.question}
+        answer={shown.toDisplay(answer) ?? answer}
+        correctAnswer={shown.toDisplay(result.correctAnswer)}
+        hideKey={retryable && !revealed}
+      />
+      <AnswerExplanation question={question} answer={answer} result={result} />
+      {retryable && (
+        <div className="flex gap-2">
+          <button className="px-3 py-1.5 rounded bg-sky-600 hover:bg-sky-500 text-white text-sm" onClick={onRetry}>
+            Try again
+          </button>
+          {!revealed && (
+            <button
+              className="px-3 py-1.5 rounded border border-white/10 bg-white/5 text-slate-200 hover:bg-white/10 text-sm"
+              onClick={() => setRevealed(true)}
+            >
+              Show answer
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import type { AnswerFeedback, AnswerValue, Question } from "../api";
+import { pickedFeedback } from "../utils/feedback";
+import RichText from "./RichText";
+
+type Props = {
+  question?: Question;
+  answer: AnswerValue;
+  /** What the server sent with the mark; falls back to the question's own fields. */
+  result?: Pick<AnswerFeedback, "explanation" | "feedback">;
+  className?: string;
+};
+
+/** Option feedback and the explanation under a reviewed answer. Neutral colors, like `AnswerReview`. */
+export default function AnswerExplanation({ question, answer, result, className }: Props) {
+  const feedback = result?.feedback?.length ? result.feedback : pickedFeedback(question, answer);
+  const explanation = (result?.explanation ?? question?.explanation)?.trim();
+  if (!feedback.length && !explanation) return null;
+
+  return (
+    <div className={`space-y-2 text-sm border-l-2 border-sky-500/60 pl-3 ${className ?? ""}`}>
+      {feedback.map((f, i) => (
+        <RichText key={i} text={f} className="italic" />
+      ))}
+      {explanation && (
+        <div>
+          <div className="text-xs uppercase tracking-wide opacity-60">Explanation</div>
+          <RichText text={explanation} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import type { AnswerValue, Question } from "../api";
+import { MediaImage } from "./QuestionMedia";
+import RichText from "./RichText";
+import { correctAnswerOf, describeAnswer, describeCorrect } from "../utils/questions";
+
+type Props = {
+  /** Missing when the question was deleted or the backend didn't include it. */
+  question?: Question;
+  answer: AnswerValue;
+  /** Answer key from the result, when the backend reveals it. */
+  correctAnswer?: AnswerValue;
+  /** Leaves out the key, while the quiz's feedback timing still withholds it. */
+  hideKey?: boolean;
+};
+
+/**
+ * Shows what the student answered next to the key, per question type. Colors
+ * are limited to emerald/rose accents so it reads on both light and dark pages.
+ */
+export default function AnswerReview({ question, answer, correctAnswer, hideKey }: Props) {
+  const key = hideKey ? null : (correctAnswer ?? (question ? correctAnswerOf(question) : null));
+
+  if (question && (question.type === "single" || question.type === "multi")) {
+    const chosen =
+      answer.type === "single" ? [answer.selectedOptionIndex] : answer.type === "multi" ? answer.selectedOptionIndexes : [];
+    const right =
+      key?.type === "single" ? [key.selectedOptionIndex] : key?.type === "multi" ? key.selectedOptionIndexes : [];
+    return (
+      <ul className="space-y-1 text-sm">
+        {question.options.map((opt, i) => (
+          <li key={i} className={chosen.includes(i) ? "font-medium" : "opacity-70"}>
+            <span className="inline-block w-5 text-center">
+              {chosen.includes(i) ? (question.type === "multi" ? "☑" : "●") : question.type === "multi" ? "☐" : "○"}
+            </span>
+            {question.optionImages?.[i] && (
+              <MediaImage image={question.optionImages[i]} className="max-h-24 rounded my-1 ml-5 block" />
+            )}
+            <RichText text={opt} inline />
+            {right.includes(i) && <span className="ml-2 text-emerald-500">✓ correct</span>}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  if (question?.type === "ordering" && answer.type === "ordering") {
+    const rightOrder = key?.type === "ordering" ? key.order : null;
+    return (
+      <div className="space-y-1 text-sm">
+        <ol className="space-y-1">
+          {answer.order.map((itemIdx, pos) => (
+            <li key={pos}>
+              <span className="inline-block w-6 opacity-70">{pos + 1}.</span>
+              {question.items[itemIdx] !== undefined ? (
+                <RichText text={question.items[itemIdx]} inline />
+              ) : (
+                `#${itemIdx}`
+              )}
+              {rightOrder &&
+                (rightOrder[pos] === itemIdx ? (
+                  <span className="ml-2 text-emerald-500">✓</span>
+                ) : (
+                  <span className="ml-2 text-rose-500">✗</span>
+                ))}
+            </li>
+          ))}
+        </ol>
+        {key?.type === "ordering" && (
+          <div className="opacity-70">Correct order: {describeAnswer(question, key)}</div>
+        )}
+      </div>
+    );
+  }
+
+  const expected = key
+    ? describeAnswer(question, key)
+    : question && !hideKey
+      ? describeCorrect(question)
+      : null;
+  const numericTolerance =
+    question?.type === "numeric" && question.tolerance && key?.type === "numeric" ? ` ± ${question.tolerance}` : "";
+  return (
+    <div className="space-y-1 text-sm">
+      <div>
+        <span className="opacity-70">Your answer: </span>
+        <span className="font-medium">{describeAnswer(question, answer)}</span>
+      </div>
+      {expected && (
+        <div>
+          <span className="opacity-70">Expected: </span>
+          {expected}
+          {numericTolerance}
+        </div>
+      )}
+    </div>
+  );
+}
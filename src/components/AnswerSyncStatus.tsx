@@ -0,0 +1,17 @@
+import type { QueueSnapshot } from "../api/answerQueue";
+
+export default function AnswerSyncStatus({ queue }: { queue: QueueSnapshot }) {
+  const { status, pending } = queue;
+  const [tone, label] =
+    status === "saved"
+      ? ["bg-emerald-500/20 text-emerald-300 border-emerald-400/30", "All answers saved"]
+      : status === "pending"
+      ? ["bg-amber-500/20 text-amber-300 border-amber-500/30", `Saving ${pending} answer${pending === 1 ? "" : "s"}…`]
+      : ["bg-rose-500/20 text-rose-300 border-rose-500/30", `Offline — ${pending} answer${pending === 1 ? "" : "s"} waiting`];
+
+  return (
+    <span className={`inline-flex items-center px-2 py-1 rounded border text-xs ${tone}`} role="status" aria-live="polite">
+      {label}
+    </span>
+  );
+}
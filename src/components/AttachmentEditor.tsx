@@ -0,0 +1,151 @@
+import { useRef, useState } from "react";
+import { api, errorMessage, isUnauthorized, mediaUrl, type Attachment } from "../api";
+import { MAX_UPLOAD_BYTES, prepareFile } from "../utils/imageResize";
+
+type Props = {
+  value: Attachment[];
+  /** Takes an updater, since uploads finish after the props they started with have moved on. */
+  onChange: (update: (list: Attachment[]) => Attachment[]) => void;
+  max?: number;
+  imagesOnly?: boolean;
+  /** A single small slot, for option images. */
+  compact?: boolean;
+  label?: string;
+};
+
+type Pending = { id: number; name: string; progress: number; error?: string };
+
+const isImage = (a: Pick<Attachment, "mimeType">) => a.mimeType.startsWith("image/");
+
+const fmtSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+let nextId = 0;
+
+/** Drag-and-drop uploader with per-file progress and an alt text field for each image. */
+export default function AttachmentEditor({
+  value,
+  onChange,
+  max = 5,
+  imagesOnly,
+  compact,
+  label = "Attachments",
+}: Props) {
+  const [pending, setPending] = useState<Pending[]>([]);
+  const [over, setOver] = useState(false);
+  const input = useRef<HTMLInputElement>(null);
+
+  const room = max - value.length - pending.filter((p) => !p.error).length;
+  const patchPending = (id: number, patch: Partial<Pending>) =>
+    setPending((list) => list.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+
+  async function uploadOne(file: File) {
+    const id = nextId++;
+    setPending((list) => [...list, { id, name: file.name, progress: 0 }]);
+    try {
+      if (imagesOnly && !file.type.startsWith("image/")) throw new Error("Only images can be attached here");
+      const { file: prepared, width, height } = await prepareFile(file);
+      if (prepared.size > MAX_UPLOAD_BYTES) throw new Error(`Larger than ${fmtSize(MAX_UPLOAD_BYTES)}`);
+      const uploaded = await api.uploads.create(prepared, { onProgress: (progress) => patchPending(id, { progress }) });
+      const attachment = { ...uploaded, width, height, alt: isImage(uploaded) ? "" : (uploaded.name ?? "") };
+      onChange((list) => [...list, attachment]);
+      setPending((list) => list.filter((p) => p.id !== id));
+    } catch (e) {
+      if (!isUnauthorized(e)) patchPending(id, { error: errorMessage(e, "Upload failed") });
+      else setPending((list) => list.filter((p) => p.id !== id));
+    }
+  }
+
+  function add(files: FileList | null) {
+    setPending((list) => list.filter((p) => !p.error));
+    [...(files ?? [])].slice(0, Math.max(0, room)).forEach(uploadOne);
+  }
+
+  const dropZone = room > 0 && (
+    <div
+      role="button"
+      tabIndex={0}
+      className={`rounded border border-dashed text-sm text-slate-400 cursor-pointer text-center ${
+        compact ? "px-2 py-1" : "p-3"
+      } ${over ? "border-sky-400 bg-sky-500/10" : "border-white/20 hover:bg-white/5"}`}
+      onClick={() => input.current?.click()}
+      onKeyDown={(e) => (e.key === "Enter" || e.key === " ") && input.current?.click()}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setOver(true);
+      }}
+      onDragLeave={() => setOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setOver(false);
+        add(e.dataTransfer.files);
+      }}
+    >
+      {compact ? "+ Image" : `Drop ${imagesOnly ? "images" : "images or files"} here, or click to choose`}
+      <input
+        ref={input}
+        type="file"
+        hidden
+        multiple={room > 1}
+        accept={imagesOnly ? "image/*" : undefined}
+        onChange={(e) => {
+          add(e.target.files);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+
+  return (
+    <div className={compact ? "space-y-1" : "space-y-2"}>
+      {!compact && <div className="text-sm text-slate-300">{label}</div>}
+      {value.map((a, i) => (
+        <div key={a.url} className="flex items-center gap-2">
+          {isImage(a) ? (
+            <img
+              src={mediaUrl(a.url)}
+              alt={a.alt}
+              className={`${compact ? "h-8 w-8" : "h-12 w-12"} object-cover rounded border border-white/10`}
+            />
+          ) : (
+            <span className="px-2 py-1 text-xs rounded bg-white/10 text-slate-300">📎 {a.name}</span>
+          )}
+          <input
+            className={`flex-1 border bg-white/10 placeholder:text-slate-400 text-white rounded text-sm ${
+              compact ? "px-2 py-1" : "p-2"
+            } ${isImage(a) && !a.alt.trim() ? "border-amber-500/60" : "border-white/10"}`}
+            placeholder={isImage(a) ? "Alt text (required) — describe the image" : "Link text"}
+            value={a.alt}
+            onChange={(e) => {
+              const alt = e.target.value;
+              onChange((list) => list.map((x, j) => (j === i ? { ...x, alt } : x)));
+            }}
+            aria-label={`Alt text for ${a.name ?? `attachment ${i + 1}`}`}
+          />
+          <button
+            type="button"
+            className="px-2 py-1 rounded border border-white/10 bg-white/5 text-slate-300 hover:bg-white/10"
+            onClick={() => onChange((list) => list.filter((x) => x.url !== a.url))}
+            aria-label={`Remove ${a.name ?? `attachment ${i + 1}`}`}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      {pending.map((p) => (
+        <div key={p.id} className="text-xs text-slate-400">
+          <div className="flex justify-between gap-2">
+            <span className="truncate">{p.name}</span>
+            {p.error ? <span className="text-rose-300">{p.error}</span> : <span>{Math.round(p.progress * 100)}%</span>}
+          </div>
+          {!p.error && (
+            <div className="h-1 mt-1 rounded bg-white/10 overflow-hidden">
+              <div className="h-full bg-sky-500 transition-[width]" style={{ width: `${p.progress * 100}%` }} />
+            </div>
+          )}
+        </div>
+      ))}
+      {dropZone}
+    </div>
+  );
+}
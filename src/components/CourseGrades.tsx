@@ -0,0 +1,61 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  api,
+  errorMessage,
+  isAbortError,
+  isMissingRoute,
+  isUnauthorized,
+  type CourseMember,
+  type Quiz,
+  type QuizAttemptRow,
+} from "../api";
+import { gradeRows } from "../utils/grades";
+import Gradebook from "./Gradebook";
+
+type Props = {
+  courseId: number;
+  /** For the export files. */
+  title: string;
+  quizzes: Quiz[];
+  members: CourseMember[];
+};
+
+/** The gradebook for one course's roster. */
+export default function CourseGrades({ courseId, title, quizzes, members }: Props) {
+  const [attempts, setAttempts] = useState<QuizAttemptRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [unavailable, setUnavailable] = useState(false);
+  const [err, setErr] = useState("");
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    api.courses
+      .attempts(courseId, { signal: ctrl.signal })
+      .then(setAttempts)
+      .catch((e) => {
+        if (isMissingRoute(e)) setUnavailable(true);
+        else if (!isAbortError(e) && !isUnauthorized(e)) setErr(errorMessage(e, "Failed to load grades"));
+      })
+      .finally(() => {
+        if (!ctrl.signal.aborted) setLoading(false);
+      });
+    return () => ctrl.abort();
+  }, [courseId]);
+
+  const rows = useMemo(
+    () => gradeRows(members.filter((m) => m.role === "student"), quizzes, attempts),
+    [members, quizzes, attempts]
+  );
+
+  if (loading) return <p className="text-slate-400">Loading…</p>;
+  if (unavailable)
+    return (
+      <p className="text-slate-400">
+        Backend route missing: <code className="text-sky-300">GET /courses/{courseId}/attempts</code>
+      </p>
+    );
+  if (err) return <p className="text-rose-300">{err}</p>;
+  if (!rows.length) return <p className="text-slate-400">No students enrolled yet.</p>;
+
+  return <Gradebook quizzes={quizzes} rows={rows} title={title} />;
+}
@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { api, errorMessage, isUnauthorized, type CourseMember, type CourseRole } from "../api";
+import { COURSE_ROLES, courseRoleLabel, inviteUrl } from "../utils/courses";
+import { parseEmails } from "../utils/emails";
+
+type Props = {
+  courseId: number;
+  members: CourseMember[];
+  onMembers: (update: (members: CourseMember[]) => CourseMember[]) => void;
+  /** Only the course's instructors change the roster; TAs just see it. */
+  canEdit: boolean;
+};
+
+const inputClass = "px-2 py-1 text-sm rounded border border-white/10 bg-white/10 text-white";
+const buttonClass = "px-3 py-1.5 rounded text-sm border disabled:opacity-50";
+
+const ROLE_ORDER: CourseRole[] = ["instructor", "ta", "student"];
+
+export default function CourseRoster({ courseId, members, onMembers, canEdit }: Props) {
+  const [emails, setEmails] = useState("");
+  const [addRole, setAddRole] = useState<CourseRole>("student");
+  const [inviteRole, setInviteRole] = useState<CourseRole>("student");
+  const [invite, setInvite] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState("");
+  const [err, setErr] = useState("");
+
+  const sorted = [...members].sort(
+    (a, b) => ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role) || a.email.localeCompare(b.email)
+  );
+
+  async function run(action: () => Promise<void>, done: string, failed: string) {
+    setErr("");
+    setMsg("");
+    setBusy(true);
+    try {
+      await action();
+      setMsg(done);
+    } catch (e) {
+      if (!isUnauthorized(e)) setErr(errorMessage(e, failed));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function add() {
+    const list = parseEmails(emails);
+    if (!list.length) return;
+    run(
+      async () => {
+        const result = await api.courses.addMembers(courseId, list, addRole);
+        onMembers(() => result.members);
+        setNotFound(result.notFound);
+        setEmails(result.notFound.join("\n"));
+      },
+      "Roster updated",
+      "Adding members failed"
+    );
+  }
+
+  function changeRole(member: CourseMember, role: CourseRole) {
+    run(
+      async () => {
+        const updated = await api.courses.setMemberRole(courseId, member.id, role);
+        onMembers((list) => list.map((m) => (m.id === member.id ? { ...m, ...updated, role } : m)));
+      },
+      `${member.email} is now ${courseRoleLabel(role)}`,
+      "Changing the role failed"
+    );
+  }
+
+  function remove(member: CourseMember) {
+    if (!confirm(`Remove ${member.email} from the course?`)) return;
+    run(
+      async () => {
+        await api.courses.removeMember(courseId, member.id);
+        onMembers((list) => list.filter((m) => m.id !== member.id));
+      },
+      `${member.email} removed`,
+      "Removing failed"
+    );
+  }
+
+  function createInvite() {
+    run(
+      async () => setInvite(inviteUrl((await api.courses.createInvite(courseId, inviteRole)).token)),
+      "Invite link created",
+      "Could not create an invite link"
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {canEdit && (
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="p-3 rounded border border-white/10 bg-white/5 space-y-2">
+            <h3 className="font-medium">Invite link</h3>
+            <p className="text-xs text-slate-400">Anyone signed in who opens the link joins the course.</p>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                className={inputClass}
+                value={inviteRole}
+                onChange={(e) => {
+                  setInviteRole(e.target.value as CourseRole);
+                  setInvite(null);
+                }}
+              >
+                {COURSE_ROLES.filter((r) => r.value !== "instructor").map((r) => (
+                  <option key={r.value} value={r.value} className="bg-[#0f172a]">
+                    Join as {r.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                className={`${buttonClass} bg-white/10 text-slate-200 border-white/10`}
+                onClick={createInvite}
+                disabled={busy}
+              >
+                Create link
+              </button>
+            </div>
+            {invite && (
+              <div className="flex items-center gap-2">
+                <input
+                  readOnly
+                  className={`${inputClass} flex-1 font-mono`}
+                  value={invite}
+                  onFocus={(e) => e.target.select()}
+                />
+                <button
+                  className={`${buttonClass} bg-white/10 text-slate-200 border-white/10`}
+                  onClick={() => navigator.clipboard?.writeText(invite).then(() => setMsg("Link copied"))}
+                >
+                  Copy
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="p-3 rounded border border-white/10 bg-white/5 space-y-2">
+            <h3 className="font-medium">Add by email</h3>
+            <textarea
+              className={`${inputClass} w-full`}
+              rows={2}
+              placeholder="Emails, one per line or comma-separated"
+              value={emails}
+              onChange={(e) => setEmails(e.target.value)}
+            />
+            <div className="flex items-center gap-2">
+              <select className={inputClass} value={addRole} onChange={(e) => setAddRole(e.target.value as CourseRole)}>
+                {COURSE_ROLES.map((r) => (
+                  <option key={r.value} value={r.value} className="bg-[#0f172a]">
+                    as {r.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                className={`${buttonClass} bg-sky-600 hover:bg-sky-500 text-white border-sky-500`}
+                onClick={add}
+                disabled={busy || !parseEmails(emails).length}
+              >
+                Add
+              </button>
+            </div>
+            {notFound.length > 0 && (
+              <p className="text-sm text-amber-200">No account for: {notFound.join(", ")}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {err && <div className="text-sm text-rose-300">{err}</div>}
+      {msg && !err && <div className="text-sm text-emerald-300">{msg}</div>}
+
+      {sorted.length ? (
+        <div className="overflow-x-auto rounded border border-white/10">
+          <table className="min-w-full text-sm">
+            <thead className="bg-white/5 text-slate-300">
+              <tr>
+                <th className="py-2 px-3 text-left">Member</th>
+                <th className="py-2 px-3 text-left">Role</th>
+                <th className="py-2 px-3 text-left">Joined</th>
+                {canEdit && <th className="py-2 px-3" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {sorted.map((m) => (
+                <tr key={m.id}>
+                  <td className="py-2 px-3">
+                    {m.name ?? m.email}
+                    {m.name && <div className="text-xs text-slate-400">{m.email}</div>}
+                  </td>
+                  <td className="py-2 px-3">
+                    {canEdit ? (
+                      <select
+                        className={inputClass}
+                        value={m.role}
+                        onChange={(e) => changeRole(m, e.target.value as CourseRole)}
+                        disabled={busy}
+                        aria-label={`Role of ${m.email}`}
+                      >
+                        {COURSE_ROLES.map((r) => (
+                          <option key={r.value} value={r.value} className="bg-[#0f172a]">
+                            {r.label}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      courseRoleLabel(m.role)
+                    )}
+                  </td>
+                  <td className="py-2 px-3 text-slate-300">
+                    {m.joinedAt ? new Date(m.joinedAt).toLocaleDateString() : "—"}
+                  </td>
+                  {canEdit && (
+                    <td className="py-2 px-3 text-right">
+                      <button
+                        className="px-2 py-0.5 rounded text-xs text-rose-200 hover:bg-rose-500/20 disabled:opacity-50"
+                        onClick={() => remove(m)}
+                        disabled={busy}
+                        aria-label={`Remove ${m.email}`}
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-slate-400">Nobody has joined yet.</p>
+      )}
+    </div>
+  );
+}
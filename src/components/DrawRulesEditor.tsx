@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import {
+  api,
+  errorMessage,
+  isAbortError,
+  isMissingRoute,
+  isUnauthorized,
+  type BankQuestion,
+  type Difficulty,
+  type DrawRule,
+  type Quiz,
+} from "../api";
+import { DIFFICULTIES } from "../utils/questions";
+
+type Props = {
+  quiz: Quiz;
+  onSaved: (rules: DrawRule[]) => void;
+};
+
+const emptyRule = (): DrawRule => ({ tag: null, counts: { easy: 0, medium: 0, hard: 0 } });
+
+function ruleTotal(rule: DrawRule) {
+  return DIFFICULTIES.reduce((n, d) => n + rule.counts[d], 0);
+}
+
+/** Bank questions a rule can draw from at one difficulty. */
+function available(bank: BankQuestion[], tag: string | null, difficulty: Difficulty) {
+  return bank.filter((q) => q.difficulty === difficulty && (tag === null || q.tags.includes(tag))).length;
+}
+
+export default function DrawRulesEditor({ quiz, onSaved }: Props) {
+  const [rules, setRules] = useState<DrawRule[]>(quiz.drawRules ?? []);
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [unavailable, setUnavailable] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState("");
+  const [err, setErr] = useState("");
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    Promise.all([api.bank.list({}, { signal: ctrl.signal }), api.bank.tags({ signal: ctrl.signal })])
+      .then(([qs, allTags]) => {
+        setBank(qs);
+        setTags(allTags);
+      })
+      .catch((e) => {
+        if (isMissingRoute(e)) setUnavailable(true);
+        else if (!isAbortError(e) && !isUnauthorized(e)) setErr(errorMessage(e, "Failed to load the question bank"));
+      });
+    return () => ctrl.abort();
+  }, []);
+
+  function updateRule(i: number, patch: Partial<DrawRule>) {
+    setMsg("");
+    setRules((prev) => prev.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+  }
+
+  async function save() {
+    setErr("");
+    setMsg("");
+    setSaving(true);
+    const kept = rules.filter((r) => ruleTotal(r) > 0);
+    try {
+      await api.quiz.setDrawRules(quiz.id, kept);
+      setRules(kept);
+      onSaved(kept);
+      setMsg(kept.length ? "Random draw saved" : "Random draw turned off");
+    } catch (e) {
+      if (!isUnauthorized(e)) setErr(errorMessage(e, "Saving the draw failed"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (unavailable) return null;
+
+  const total = rules.reduce((n, r) => n + ruleTotal(r), 0);
+
+  return (
+    <div className="mb-4 p-3 rounded border border-white/10 bg-white/5">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium">Random draw from question bank</h3>
+        <span className="text-sm text-slate-400">
+          {total ? `${total} drawn per attempt` : "Off"}
+        </span>
+      </div>
+      <p className="text-sm text-slate-400 mb-3">
+        Each attempt gets its own draw, added after the fixed questions below.
+      </p>
+
+      {err && <div className="mb-2 text-sm text-rose-300">{err}</div>}
+      {msg && !err && <div className="mb-2 text-sm text-emerald-300">{msg}</div>}
+
+      {rules.length > 0 && (
+        <ul className="space-y-2 mb-3">
+          {rules.map((rule, i) => (
+            <li key={i} className="flex flex-wrap items-center gap-2">
+              <select
+                className="px-2 py-1 text-sm rounded border border-white/10 bg-white/10 text-white"
+                value={rule.tag ?? ""}
+                onChange={(e) => updateRule(i, { tag: e.target.value || null })}
+                aria-label="Tag"
+              >
+                <option value="" className="bg-[#0f172a]">Any tag</option>
+                {tags.map((t) => (
+                  <option key={t} value={t} className="bg-[#0f172a]">
+                    #{t}
+                  </option>
+                ))}
+              </select>
+              {DIFFICULTIES.map((d) => {
+                const max = available(bank, rule.tag, d);
+                return (
+                  <label key={d} className="flex items-center gap-1 text-sm text-slate-300">
+                    {d}
+                    <input
+                      type="number"
+                      min={0}
+                      className={`w-16 px-2 py-1 rounded border bg-white/10 text-white ${
+                        rule.counts[d] > max ? "border-rose-500/60" : "border-white/10"
+                      }`}
+                      value={rule.counts[d]}
+                      onChange={(e) =>
+                        updateRule(i, {
+                          counts: { ...rule.counts, [d]: Math.max(0, Math.floor(Number(e.target.value) || 0)) },
+                        })
+                      }
+                    />
+                    <span className="text-xs text-slate-500">/ {max}</span>
+                  </label>
+                );
+              })}
+              <button
+                className="px-2 py-1 text-sm rounded bg-rose-500/20 text-rose-200 border border-rose-500/30"
+                onClick={() => {
+                  setMsg("");
+                  setRules((prev) => prev.filter((_, j) => j !== i));
+                }}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {rules.some((r) => DIFFICULTIES.some((d) => r.counts[d] > available(bank, r.tag, d))) && (
+        <p className="mb-2 text-sm text-amber-300">
+          Some rules ask for more questions than the bank has; attempts will get as many as are available.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          className="px-3 py-1.5 rounded bg-white/10 text-slate-200 border border-white/10 text-sm"
+          onClick={() => setRules((prev) => [...prev, emptyRule()])}
+        >
+          Add rule
+        </button>
+        <button
+          className="px-3 py-1.5 rounded bg-slate-800 text-white text-sm disabled:opacity-50"
+          onClick={save}
+          disabled={saving}
+        >
+          {saving ? "Saving…" : "Save draw"}
+        </button>
+      </div>
+    </div>
+  );
+}
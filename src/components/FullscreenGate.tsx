@@ -0,0 +1,26 @@
+type Props = {
+  onReturn: () => void;
+  /** False before the exam has been in fullscreen at all. */
+  left: boolean;
+};
+
+/** Covers a locked-down exam while it isn't fullscreen. */
+export default function FullscreenGate({ onReturn, left }: Props) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-[#0b1220] p-4">
+      <div className="max-w-md p-5 rounded-2xl border border-white/10 bg-white/5 text-center space-y-3">
+        <h2 className="text-lg font-semibold text-white">
+          {left ? "You left fullscreen" : "This exam runs in fullscreen"}
+        </h2>
+        <p className="text-slate-300">
+          {left
+            ? "The exit has been recorded for your instructor. Return to fullscreen to continue; your answers are saved."
+            : "The questions are shown once the exam fills the screen."}
+        </p>
+        <button className="px-4 py-2 rounded-lg bg-sky-600 hover:bg-sky-500 text-white" onClick={onReturn} autoFocus>
+          {left ? "Return to fullscreen" : "Enter fullscreen"}
+        </button>
+      </div>
+    </div>
+  );
+}
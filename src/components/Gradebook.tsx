@@ -0,0 +1,192 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import type { Quiz } from "../api";
+import { SCORING_POLICIES } from "../utils/attemptPolicy";
+import { downloadFile, fileSlug } from "../utils/download";
+import { gradesCsv, gradesXlsx } from "../utils/gradeExport";
+import { gradedQuizzes, studentLabel, type GradeRow } from "../utils/grades";
+
+type Props = {
+  quizzes: Quiz[];
+  rows: GradeRow[];
+  /** Names the export files and the spreadsheet tab. */
+  title: string;
+};
+
+/** "student", "average", or a quiz id. */
+type SortKey = "student" | "average" | number;
+
+type Show = "all" | "failing" | "missing";
+
+const SHOW_OPTIONS: { value: Show; label: string }[] = [
+  { value: "all", label: "All students" },
+  { value: "failing", label: "Failing a quiz" },
+  { value: "missing", label: "Missing a quiz" },
+];
+
+const inputClass = "px-2 py-1 text-sm rounded border border-white/10 bg-white/10 text-white placeholder:text-slate-400";
+const buttonClass = "px-3 py-1 text-sm rounded bg-white/10 text-slate-200 border border-white/10 hover:bg-white/15";
+
+/** Students × graded quizzes with the score each quiz's policy counts. Cells open the counted attempt. */
+export default function Gradebook({ quizzes, rows, title }: Props) {
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: "student", desc: false });
+  const [query, setQuery] = useState("");
+  const [show, setShow] = useState<Show>("all");
+
+  const columns = useMemo(() => gradedQuizzes(quizzes), [quizzes]);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const filtered = rows.filter(({ student, cells }) => {
+      if (q && !`${student.name ?? ""} ${student.email}`.toLowerCase().includes(q)) return false;
+      if (show === "failing") return [...cells.values()].some((c) => !c.passed);
+      if (show === "missing") return columns.some((quiz) => !cells.has(quiz.id));
+      return true;
+    });
+
+    const value = (r: GradeRow) =>
+      sort.key === "student" ? null : sort.key === "average" ? r.average : r.cells.get(sort.key)?.ratio;
+    return filtered.sort((a, b) => {
+      if (sort.key === "student") {
+        const byName = studentLabel(a.student).localeCompare(studentLabel(b.student));
+        return sort.desc ? -byName : byName;
+      }
+      // Students without a score stay at the bottom either way.
+      const va = value(a);
+      const vb = value(b);
+      if (va == null || vb == null) return va == null ? (vb == null ? 0 : 1) : -1;
+      return sort.desc ? vb - va : va - vb;
+    });
+  }, [rows, columns, query, show, sort]);
+
+  function sortBy(key: SortKey) {
+    // Scores start highest first; names start A–Z.
+    setSort((s) => (s.key === key ? { key, desc: !s.desc } : { key, desc: key !== "student" }));
+  }
+
+  function sortHeader(key: SortKey, label: React.ReactNode, align = "text-center", extra?: React.ReactNode) {
+    const active = sort.key === key;
+    return (
+      <th
+        key={key}
+        className={`py-2 px-3 font-medium ${align}`}
+        aria-sort={active ? (sort.desc ? "descending" : "ascending") : "none"}
+      >
+        <button className="hover:text-white" onClick={() => sortBy(key)}>
+          {label}
+          <span className="ml-1 text-xs opacity-70">{active ? (sort.desc ? "▼" : "▲") : ""}</span>
+        </button>
+        {extra}
+      </th>
+    );
+  }
+
+  function exportAs(kind: "csv" | "xlsx") {
+    const name = `${fileSlug(title, "gradebook")}-grades`;
+    if (kind === "csv") downloadFile(`${name}.csv`, gradesCsv(visible, columns), "text/csv");
+    else downloadFile(`${name}.xlsx`, gradesXlsx(visible, columns, title));
+  }
+
+  if (!columns.length) return <p className="text-slate-400">No graded quizzes here yet.</p>;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          className={inputClass}
+          placeholder="Search students"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          aria-label="Search students"
+        />
+        <select
+          className={inputClass}
+          value={show}
+          onChange={(e) => setShow(e.target.value as Show)}
+          aria-label="Show"
+        >
+          {SHOW_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value} className="bg-[#0f172a]">
+              {o.label}
+            </option>
+          ))}
+        </select>
+        <span className="text-sm text-slate-400">
+          {visible.length} of {rows.length} student{rows.length === 1 ? "" : "s"}
+        </span>
+        <div className="ml-auto flex gap-2">
+          <button className={buttonClass} onClick={() => exportAs("csv")} disabled={!visible.length}>
+            Export CSV
+          </button>
+          <button className={buttonClass} onClick={() => exportAs("xlsx")} disabled={!visible.length}>
+            Export XLSX
+          </button>
+        </div>
+      </div>
+
+      {visible.length ? (
+        <div className="overflow-x-auto rounded border border-white/10">
+          <table className="min-w-full text-sm">
+            <thead className="bg-white/5 text-slate-300">
+              <tr>
+                {sortHeader("student", "Student", "text-left")}
+                {columns.map((q) =>
+                  sortHeader(
+                    q.id,
+                    <span
+                      title={`${SCORING_POLICIES.find((p) => p.value === (q.scoringPolicy ?? "best"))?.label} counts`}
+                    >
+                      {q.title}
+                    </span>,
+                    "text-center",
+                    <Link
+                      to={`/quiz/${q.id}/attempts`}
+                      className="ml-1 text-xs text-sky-300 hover:underline"
+                      title="Every attempt on this quiz"
+                    >
+                      ↗
+                    </Link>
+                  )
+                )}
+                {sortHeader("average", "Average")}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {visible.map(({ student, cells, average }) => (
+                <tr key={student.id} className="hover:bg-white/5">
+                  <td className="py-2 px-3 whitespace-nowrap">
+                    {studentLabel(student)}
+                    {student.name && <div className="text-xs text-slate-400">{student.email}</div>}
+                  </td>
+                  {columns.map((q) => {
+                    const cell = cells.get(q.id);
+                    return (
+                      <td key={q.id} className="py-2 px-3 text-center">
+                        {cell ? (
+                          <Link
+                            to={`/quiz/${q.id}/attempts/${cell.attemptId}/detail`}
+                            className={`inline-block px-2 py-1 text-xs rounded hover:underline ${
+                              cell.passed ? "bg-emerald-500/20 text-emerald-300" : "bg-rose-500/20 text-rose-300"
+                            }`}
+                            title={`${cell.attempts} finished attempt${cell.attempts === 1 ? "" : "s"}`}
+                          >
+                            {cell.label}
+                          </Link>
+                        ) : (
+                          <span className="text-slate-500">—</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="py-2 px-3 text-center text-slate-300">{Math.round(average * 100)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-slate-400">No students match.</p>
+      )}
+    </div>
+  );
+}
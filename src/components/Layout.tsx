@@ -1,18 +1,50 @@
 import { Link, NavLink } from "react-router-dom";
 import { useAuth } from "../auth/AuthContext";
+import { useNavigationLocked } from "../hooks/useExamLockdown";
+
+const LOCKED_TITLE = "Finish the exam before leaving this page";
+
+/** A nav link that goes inert while a locked-down exam is in progress. */
+function NavItem({ to, locked, children }: { to: string; locked: boolean; children: React.ReactNode }) {
+  if (locked)
+    return (
+      <span className="px-3 py-1.5 rounded text-sm text-slate-500 cursor-not-allowed" aria-disabled title={LOCKED_TITLE}>
+        {children}
+      </span>
+    );
+  return (
+    <NavLink
+      to={to}
+      className={({ isActive }) =>
+        `px-3 py-1.5 rounded text-sm ${
+          isActive ? "bg-white/10 text-white" : "text-slate-300 hover:text-white"
+        }`
+      }
+    >
+      {children}
+    </NavLink>
+  );
+}
 
 export default function Layout({ children }: { children: React.ReactNode }) {
   const { user, signOut } = useAuth();
   const logout = signOut;
+  const locked = useNavigationLocked();
 
   return (
     <div className="min-h-screen bg-[#0b1220] text-white">
       <nav className="bg-[#0a0f1c] border-b border-white/10">
         <div className="max-w-6xl mx-auto px-4 h-14 flex items-center justify-between">
           <div className="flex items-center gap-3">
-            <Link to="/" className="font-semibold text-white">
-              Quiz Portal
-            </Link>
+            {locked ? (
+              <span className="font-semibold text-white" title={LOCKED_TITLE}>
+                Quiz Portal
+              </span>
+            ) : (
+              <Link to="/" className="font-semibold text-white">
+                Quiz Portal
+              </Link>
+            )}
 
             {user?.role && (
               <span className="text-xs rounded px-2 py-1 bg-slate-800 text-white">
@@ -24,54 +56,44 @@ export default function Layout({ children }: { children: React.ReactNode }) {
           <div className="hidden sm:flex items-center gap-2">
             {user?.role === "STUDENT" && (
               <>
-                <NavLink
-                  to="/student"
-                  className={({ isActive }) =>
-                    `px-3 py-1.5 rounded text-sm ${
-                      isActive ? "bg-white/10 text-white" : "text-slate-300 hover:text-white"
-                    }`
-                  }
-                >
+                <NavItem to="/student" locked={locked}>
                   Student Dashboard
-                </NavLink>
+                </NavItem>
 
-                <NavLink
-                  to="/quizzes"
-                  className={({ isActive }) =>
-                    `px-3 py-1.5 rounded text-sm ${
-                      isActive ? "bg-white/10 text-white" : "text-slate-300 hover:text-white"
-                    }`
-                  }
-                >
+                <NavItem to="/quizzes" locked={locked}>
                   Take Quiz
-                </NavLink>
+                </NavItem>
+
+                <NavItem to="/courses" locked={locked}>
+                  Courses
+                </NavItem>
               </>
             )}
 
             {user?.role === "INSTRUCTOR" && (
-              <NavLink
-                to="/instructor"
-                className={({ isActive }) =>
-                  `px-3 py-1.5 rounded text-sm ${
-                    isActive ? "bg-white/10 text-white" : "text-slate-300 hover:text-white"
-                  }`
-                }
-              >
-                Instructor Dashboard
-              </NavLink>
+              <>
+                <NavItem to="/instructor" locked={locked}>
+                  Instructor Dashboard
+                </NavItem>
+
+                <NavItem to="/courses" locked={locked}>
+                  Courses
+                </NavItem>
+
+                <NavItem to="/gradebook" locked={locked}>
+                  Gradebook
+                </NavItem>
+
+                <NavItem to="/bank" locked={locked}>
+                  Question Bank
+                </NavItem>
+              </>
             )}
 
             {user?.role === "ADMIN" && (
-              <NavLink
-                to="/admin"
-                className={({ isActive }) =>
-                  `px-3 py-1.5 rounded text-sm ${
-                    isActive ? "bg-white/10 text-white" : "text-slate-300 hover:text-white"
-                  }`
-                }
-              >
+              <NavItem to="/admin" locked={locked}>
                 Admin Dashboard
-              </NavLink>
+              </NavItem>
             )}
           </div>
 
@@ -81,7 +103,9 @@ export default function Layout({ children }: { children: React.ReactNode }) {
             )}
             <button
               onClick={logout}
-              className="px-3 py-1.5 rounded bg-rose-600 hover:bg-rose-500 text-white text-sm"
+              className="px-3 py-1.5 rounded bg-rose-600 hover:bg-rose-500 text-white text-sm disabled:opacity-50"
+              disabled={locked}
+              title={locked ? LOCKED_TITLE : undefined}
             >
               Logout
             </button>
@@ -0,0 +1,26 @@
+type Props = {
+  onAccept: () => void;
+};
+
+/** Shown before the first question of a monitored attempt; nothing is logged until it's accepted. */
+export default function MonitoringNotice({ onAccept }: Props) {
+  return (
+    <section className="max-w-xl mx-auto p-5 rounded-2xl border border-amber-500/30 bg-amber-500/10 space-y-3">
+      <h2 className="text-lg font-semibold text-amber-200">This exam is monitored</h2>
+      <p className="text-slate-200">While you take it, the following are recorded with a timestamp and shared with your instructor:</p>
+      <ul className="list-disc pl-5 text-slate-300 space-y-1">
+        <li>switching to another tab or window, and coming back</li>
+        <li>leaving fullscreen</li>
+        <li>copying, cutting or pasting text</li>
+        <li>right-clicking on the page</li>
+      </ul>
+      <p className="text-slate-300">
+        The exam runs in fullscreen, and links away from it are disabled until you finish.
+      </p>
+      <p className="text-sm text-slate-400">Nothing else is collected — no camera, microphone or screen capture.</p>
+      <button className="px-4 py-2 rounded-lg bg-sky-600 hover:bg-sky-500 text-white" onClick={onAccept}>
+        I understand — start
+      </button>
+    </section>
+  );
+}
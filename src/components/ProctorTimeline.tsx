@@ -0,0 +1,53 @@
+import type { ProctorEvent } from "../api";
+import { PROCTOR_EVENT_LABELS, isFlagged } from "../utils/proctoring";
+import { elapsedBetween, fmtClock, fmtDuration } from "../utils/time";
+
+type Props = {
+  events: ProctorEvent[];
+  /** Offsets are shown from here, when known. */
+  startedAt?: string;
+};
+
+/** Monitoring events of one attempt, oldest first. Light theme, for the attempt detail page. */
+export default function ProctorTimeline({ events, startedAt }: Props) {
+  const sorted = [...events].sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+  const flagged = sorted.filter((e) => isFlagged(e.type)).length;
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-lg font-semibold">Monitoring</h3>
+      <p className="text-sm text-slate-600">
+        {flagged ? `${flagged} flagged event${flagged === 1 ? "" : "s"}` : "Nothing flagged"}
+      </p>
+      {sorted.length > 0 && (
+        <ol className="rounded-xl border border-slate-200 bg-white divide-y divide-slate-100 text-sm">
+          {sorted.map((e, i) => {
+            const offset = elapsedBetween(startedAt, e.at);
+            // How long the student was away, on the event that brings them back.
+            const left =
+              e.type === "tab_visible" ? sorted.slice(0, i).reverse().find((x) => x.type === "tab_hidden") : null;
+            const away = left ? elapsedBetween(left.at, e.at) : null;
+            return (
+              <li key={i} className="px-3 py-2 flex gap-2">
+                <span
+                  className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${isFlagged(e.type) ? "bg-amber-500" : "bg-slate-300"}`}
+                  aria-hidden
+                />
+                <div>
+                  <div className="text-slate-800">
+                    {PROCTOR_EVENT_LABELS[e.type] ?? e.type}
+                    {away !== null && <span className="text-slate-500"> (away {fmtDuration(away)})</span>}
+                  </div>
+                  <div className="text-xs text-slate-500" title={new Date(e.at).toLocaleString()}>
+                    {offset !== null ? `+${fmtClock(offset)}` : new Date(e.at).toLocaleTimeString()}
+                    {e.questionId ? ` · Q#${e.questionId}` : ""}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </section>
+  );
+}
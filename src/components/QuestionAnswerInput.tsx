@@ -0,0 +1,213 @@
+import { useState } from "react";
+import type { AnswerValue, Question } from "../api";
+import { MediaImage } from "./QuestionMedia";
+import RichText from "./RichText";
+
+type Props = {
+  question: Question;
+  value?: AnswerValue;
+  /** Called with null when a numeric answer is cleared or not yet a number. */
+  onChange: (value: AnswerValue | null) => void;
+  disabled?: boolean;
+};
+
+const choiceClass = (active: boolean) =>
+  `w-full text-left p-3 rounded border transition
+   focus:outline-none focus:ring-2 focus:ring-sky-400 disabled:opacity-60
+   ${active
+     ? "bg-sky-600/20 border-sky-500 text-white"
+     : "bg-white/5 border-white/10 text-slate-200 hover:bg-white/10"}`;
+
+const inputClass =
+  "w-full border border-white/10 bg-white/10 placeholder:text-slate-400 text-white p-2 rounded disabled:opacity-60";
+
+/**
+ * Answer controls for one question, picked by its type. Render it with
+ * `key={question.id}` so text drafts don't leak between questions.
+ */
+export default function QuestionAnswerInput({ question, value, onChange, disabled }: Props) {
+  switch (question.type) {
+    case "single":
+      return (
+        <div className="space-y-2">
+          {question.options.map((opt, i) => {
+            const active = value?.type === "single" && value.selectedOptionIndex === i;
+            return (
+              <button
+                key={i}
+                onClick={() => onChange({ type: "single", selectedOptionIndex: i })}
+                disabled={disabled}
+                className={choiceClass(active)}
+                aria-pressed={active}
+              >
+                <span className="mr-2 inline-block w-5 text-center">{active ? "●" : "○"}</span>
+                {question.optionImages?.[i] && (
+                  <MediaImage image={question.optionImages[i]} className="max-h-40 rounded my-1 block" />
+                )}
+                <RichText text={opt} inline />
+              </button>
+            );
+          })}
+        </div>
+      );
+
+    case "multi": {
+      const chosen = value?.type === "multi" ? value.selectedOptionIndexes : [];
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-slate-400">Select all that apply.</p>
+          {question.options.map((opt, i) => {
+            const active = chosen.includes(i);
+            const next = active ? chosen.filter((c) => c !== i) : [...chosen, i].sort((a, b) => a - b);
+            return (
+              <button
+                key={i}
+                onClick={() => onChange({ type: "multi", selectedOptionIndexes: next })}
+                disabled={disabled}
+                className={choiceClass(active)}
+                aria-pressed={active}
+              >
+                <span className="mr-2 inline-block w-5 text-center">{active ? "☑" : "☐"}</span>
+                {question.optionImages?.[i] && (
+                  <MediaImage image={question.optionImages[i]} className="max-h-40 rounded my-1 block" />
+                )}
+                <RichText text={opt} inline />
+              </button>
+            );
+          })}
+        </div>
+      );
+    }
+
+    case "truefalse":
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          {[true, false].map((v) => {
+            const active = value?.type === "truefalse" && value.value === v;
+            return (
+              <button
+                key={String(v)}
+                onClick={() => onChange({ type: "truefalse", value: v })}
+                disabled={disabled}
+                className={choiceClass(active)}
+                aria-pressed={active}
+              >
+                {v ? "True" : "False"}
+              </button>
+            );
+          })}
+        </div>
+      );
+
+    case "numeric":
+      return (
+        <NumericAnswer
+          value={value?.type === "numeric" ? value.value : undefined}
+          onChange={onChange}
+          disabled={disabled}
+        />
+      );
+
+    case "text":
+      return (
+        <input
+          className={inputClass}
+          placeholder="Your answer"
+          value={value?.type === "text" ? value.value : ""}
+          onChange={(e) => onChange({ type: "text", value: e.target.value })}
+          disabled={disabled}
+        />
+      );
+
+    case "ordering":
+      return (
+        <OrderingAnswer
+          items={question.items}
+          order={value?.type === "ordering" ? value.order : undefined}
+          onChange={onChange}
+          disabled={disabled}
+        />
+      );
+  }
+}
+
+function NumericAnswer({
+  value,
+  onChange,
+  disabled,
+}: {
+  value?: number;
+  onChange: Props["onChange"];
+  disabled?: boolean;
+}) {
+  // Kept as text so partial input like "-" or "1." survives re-renders.
+  const [draft, setDraft] = useState(value === undefined ? "" : String(value));
+
+  return (
+    <input
+      className={inputClass}
+      inputMode="decimal"
+      placeholder="Enter a number"
+      value={draft}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const n = Number(e.target.value);
+        onChange(e.target.value.trim() !== "" && Number.isFinite(n) ? { type: "numeric", value: n } : null);
+      }}
+      disabled={disabled}
+    />
+  );
+}
+
+function OrderingAnswer({
+  items,
+  order,
+  onChange,
+  disabled,
+}: {
+  items: string[];
+  order?: number[];
+  onChange: Props["onChange"];
+  disabled?: boolean;
+}) {
+  const current = order ?? items.map((_, i) => i);
+
+  function move(from: number, to: number) {
+    const next = [...current];
+    [next[from], next[to]] = [next[to], next[from]];
+    onChange({ type: "ordering", order: next });
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-slate-400">Put the items in the right order.</p>
+      <ol className="space-y-2">
+        {current.map((itemIdx, pos) => (
+          <li
+            key={itemIdx}
+            className="flex items-center gap-2 p-3 rounded border border-white/10 bg-white/5 text-slate-200"
+          >
+            <span className="w-6 text-slate-400">{pos + 1}.</span>
+            <RichText text={items[itemIdx]} inline className="flex-1" />
+            <button
+              className="px-2 py-1 rounded border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40"
+              onClick={() => move(pos, pos - 1)}
+              disabled={disabled || pos === 0}
+              aria-label={`Move "${items[itemIdx]}" up`}
+            >
+              ↑
+            </button>
+            <button
+              className="px-2 py-1 rounded border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40"
+              onClick={() => move(pos, pos + 1)}
+              disabled={disabled || pos === current.length - 1}
+              aria-label={`Move "${items[itemIdx]}" down`}
+            >
+              ↓
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,578 @@
+import { useState } from "react";
+import {
+  errorMessage,
+  type Attachment,
+  type Difficulty,
+  type Question,
+  type QuestionInput,
+  type QuestionType,
+} from "../api";
+import { DIFFICULTIES, QUESTION_TYPES } from "../utils/questions";
+import AttachmentEditor from "./AttachmentEditor";
+import QuestionMedia, { MediaImage } from "./QuestionMedia";
+import RichText from "./RichText";
+
+const fieldClass = "w-full border border-white/10 bg-white/10 placeholder:text-slate-400 text-white p-2 rounded";
+
+const splitLines = (s: string) =>
+  s
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+type Draft = {
+  type: QuestionType;
+  text: string;
+  points: string;
+  attachments: Attachment[];
+  /** Choice options, or ordering items in their correct order. */
+  options: string[];
+  /** Parallel to `options`; only kept for single and multi. */
+  optionImages: (Attachment | null)[];
+  /** Parallel to `options`, like `optionImages`. */
+  optionFeedback: string[];
+  explanation: string;
+  /** Indexes of the correct options (single and multi). */
+  correct: number[];
+  partialCredit: boolean;
+  truth: boolean;
+  numeric: string;
+  tolerance: string;
+  accepted: string;
+  matchMode: "exact" | "regex";
+  caseSensitive: boolean;
+  tags: string;
+  difficulty: Difficulty;
+};
+
+/** Bank-only fields; quiz questions ignore them. */
+export type QuestionMeta = { tags: string[]; difficulty: Difficulty };
+
+function draftFrom(q?: Question & Partial<QuestionMeta>): Draft {
+  const draft: Draft = {
+    type: q?.type ?? "single",
+    text: q?.text ?? "",
+    points: String(q?.points ?? 1),
+    attachments: q?.attachments ?? [],
+    options: ["", ""],
+    optionImages: [],
+    optionFeedback: [],
+    explanation: q?.explanation ?? "",
+    correct: [],
+    partialCredit: false,
+    truth: true,
+    numeric: "",
+    tolerance: "",
+    accepted: "",
+    matchMode: "exact",
+    caseSensitive: false,
+    tags: q?.tags?.join(", ") ?? "",
+    difficulty: q?.difficulty ?? "medium",
+  };
+  switch (q?.type) {
+    case "single":
+      return {
+        ...draft,
+        options: q.options,
+        optionImages: q.optionImages ?? [],
+        optionFeedback: q.optionFeedback ?? [],
+        correct: q.correctOptionIndex === undefined ? [] : [q.correctOptionIndex],
+      };
+    case "multi":
+      return {
+        ...draft,
+        options: q.options,
+        optionImages: q.optionImages ?? [],
+        optionFeedback: q.optionFeedback ?? [],
+        correct: q.correctOptionIndexes ?? [],
+        partialCredit: q.partialCredit ?? false,
+      };
+    case "truefalse":
+      return { ...draft, truth: q.correctValue ?? true };
+    case "numeric":
+      return { ...draft, numeric: String(q.correctValue ?? ""), tolerance: q.tolerance ? String(q.tolerance) : "" };
+    case "text":
+      return {
+        ...draft,
+        accepted: (q.acceptedAnswers ?? []).join("\n"),
+        matchMode: q.matchMode ?? "exact",
+        caseSensitive: q.caseSensitive ?? false,
+      };
+    case "ordering":
+      return { ...draft, options: q.correctOrder ? q.correctOrder.map((i) => q.items[i]) : q.items };
+    default:
+      return draft;
+  }
+}
+
+/** Builds the request body for the draft, throwing a readable message when a field is off. */
+function toInput(d: Draft): QuestionInput {
+  const text = d.text.trim();
+  const options = d.options.map((o) => o.trim());
+  const points = d.points.trim() === "" ? 1 : Number(d.points);
+  if (!Number.isFinite(points) || points <= 0) throw new Error("Points must be a positive number");
+  const attachments = d.attachments.map((a) => ({ ...a, alt: a.alt.trim() }));
+  const optionImages = options.map((_, i) => {
+    const a = d.optionImages[i];
+    return a ? { ...a, alt: a.alt.trim() } : null;
+  });
+  const images = [...attachments, ...(d.type === "single" || d.type === "multi" ? optionImages : [])];
+  if (images.some((a) => a?.mimeType.startsWith("image/") && !a.alt))
+    throw new Error("Every image needs alt text describing it");
+  const optionFeedback = options.map((_, i) => d.optionFeedback[i]?.trim() ?? "");
+  const base = { text, points, attachments, explanation: d.explanation.trim() };
+  switch (d.type) {
+    case "single":
+    case "multi": {
+      if (options.length < 2) throw new Error("At least two options are required");
+      if (options.some((o, i) => !o && !optionImages[i])) throw new Error("Options can't be empty");
+      if (!d.correct.length) throw new Error("Pick the correct option");
+      const extras = {
+        ...(optionImages.some(Boolean) && { optionImages }),
+        ...(optionFeedback.some(Boolean) && { optionFeedback }),
+      };
+      if (d.type === "single") return { ...base, type: d.type, options, ...extras, correctOptionIndex: d.correct[0] };
+      return {
+        ...base,
+        type: d.type,
+        options,
+        ...extras,
+        correctOptionIndexes: [...d.correct].sort((a, b) => a - b),
+        partialCredit: d.partialCredit,
+      };
+    }
+    case "truefalse":
+      return { ...base, type: d.type, correctValue: d.truth };
+    case "numeric": {
+      const value = Number(d.numeric);
+      const tolerance = d.tolerance.trim() === "" ? 0 : Number(d.tolerance);
+      if (d.numeric.trim() === "" || !Number.isFinite(value)) throw new Error("Correct value must be a number");
+      if (!Number.isFinite(tolerance) || tolerance < 0) throw new Error("Tolerance must be zero or a positive number");
+      return { ...base, type: d.type, correctValue: value, tolerance };
+    }
+    case "text": {
+      const answers = splitLines(d.accepted);
+      if (!answers.length) throw new Error("At least one accepted answer is required");
+      if (d.matchMode === "regex") {
+        for (const a of answers) {
+          try {
+            new RegExp(a);
+          } catch {
+            throw new Error(`Invalid pattern: ${a}`);
+          }
+        }
+      }
+      return { ...base, type: d.type, acceptedAnswers: answers, matchMode: d.matchMode, caseSensitive: d.caseSensitive };
+    }
+    case "ordering": {
+      if (options.length < 2) throw new Error("At least two items are required");
+      if (options.some((o) => !o)) throw new Error("Items can't be empty");
+      return { ...base, type: d.type, items: options, correctOrder: options.map((_, i) => i) };
+    }
+  }
+}
+
+type Props<Q extends Question> = {
+  /** When set, the form edits this question instead of adding a new one. */
+  question?: Q;
+  /** Creates or updates the question; `meta` is only filled in when `withMeta` is set. */
+  save: (input: QuestionInput, meta: QuestionMeta) => Promise<Q>;
+  /** Shows tag and difficulty fields, for question bank entries. */
+  withMeta?: boolean;
+  onSaved: (q: Q) => void;
+  onCancel?: () => void;
+};
+
+export default function QuestionForm<Q extends Question>({
+  question,
+  save: saveQuestion,
+  withMeta,
+  onSaved,
+  onCancel,
+}: Props<Q>) {
+  const [draft, setDraft] = useState(() => draftFrom(question));
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState("");
+
+  const set = (patch: Partial<Draft>) => setDraft((d) => ({ ...d, ...patch }));
+
+  async function save() {
+    setErr("");
+    setSaving(true);
+    try {
+      const meta: QuestionMeta = {
+        tags: [...new Set(draft.tags.split(",").map((t) => t.trim().toLowerCase()).filter(Boolean))],
+        difficulty: draft.difficulty,
+      };
+      const saved = await saveQuestion(toInput(draft), meta);
+      // Keep tags and difficulty for the next bank entry; they usually repeat.
+      if (!question) setDraft({ ...draftFrom(), tags: draft.tags, difficulty: draft.difficulty });
+      onSaved(saved);
+    } catch (e) {
+      setErr(errorMessage(e, question ? "Save failed" : "Add failed"));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!draft.text.trim()) return setErr("Question text is required");
+        save();
+      }}
+    >
+      <div className="grid grid-cols-[1fr_auto] gap-2">
+        <select
+          className={fieldClass}
+          value={draft.type}
+          onChange={(e) => {
+            // The option list carries over between choice types; single keeps one correct option.
+            const type = e.target.value as QuestionType;
+            set({ type, correct: type === "single" ? draft.correct.slice(0, 1) : draft.correct });
+            setErr("");
+          }}
+          aria-label="Question type"
+        >
+          {QUESTION_TYPES.map((t) => (
+            <option key={t.value} value={t.value} className="bg-[#0f172a]">
+              {t.label}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          Points
+          <input
+            className="w-20 border border-white/10 bg-white/10 text-white p-2 rounded"
+            inputMode="decimal"
+            value={draft.points}
+            onChange={(e) => set({ points: e.target.value })}
+          />
+        </label>
+      </div>
+      <div className="grid md:grid-cols-2 gap-2">
+        <textarea
+          className={`${fieldClass} min-h-[8rem] font-mono text-sm`}
+          placeholder="Question text — Markdown, ```code``` and $math$ supported"
+          value={draft.text}
+          onChange={(e) => set({ text: e.target.value })}
+          required
+        />
+        <QuestionPreview draft={draft} />
+      </div>
+      <AttachmentEditor
+        value={draft.attachments}
+        onChange={(update) => setDraft((d) => ({ ...d, attachments: update(d.attachments) }))}
+      />
+
+      {withMeta && (
+        <div className="grid grid-cols-[1fr_auto] gap-2">
+          <input
+            className={fieldClass}
+            placeholder="Tags (comma separated, e.g. algebra, fractions)"
+            value={draft.tags}
+            onChange={(e) => set({ tags: e.target.value })}
+          />
+          <select
+            className="border border-white/10 bg-white/10 text-white p-2 rounded"
+            value={draft.difficulty}
+            onChange={(e) => set({ difficulty: e.target.value as Difficulty })}
+            aria-label="Difficulty"
+          >
+            {DIFFICULTIES.map((d) => (
+              <option key={d} value={d} className="bg-[#0f172a]">
+                {d[0].toUpperCase() + d.slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {(draft.type === "single" || draft.type === "multi") && (
+        <ListEditor
+          values={draft.options}
+          onChange={(options, correct, removed) =>
+            set({
+              options,
+              correct: correct ?? draft.correct,
+              optionImages:
+                removed === undefined ? draft.optionImages : draft.optionImages.filter((_, j) => j !== removed),
+              optionFeedback:
+                removed === undefined ? draft.optionFeedback : draft.optionFeedback.filter((_, j) => j !== removed),
+            })
+          }
+          feedback={draft.optionFeedback}
+          onFeedback={(i, value) =>
+            set({ optionFeedback: draft.options.map((_, j) => (j === i ? value : (draft.optionFeedback[j] ?? ""))) })
+          }
+          images={draft.optionImages}
+          onImages={(i, update) =>
+            setDraft((d) => {
+              const optionImages = d.options.map((_, j) => d.optionImages[j] ?? null);
+              optionImages[i] = update(optionImages[i] ? [optionImages[i]] : [])[0] ?? null;
+              return { ...d, optionImages };
+            })
+          }
+          correct={draft.correct}
+          onCorrect={(i) =>
+            set({
+              correct:
+                draft.type === "single"
+                  ? [i]
+                  : draft.correct.includes(i)
+                    ? draft.correct.filter((c) => c !== i)
+                    : [...draft.correct, i],
+            })
+          }
+          mark={draft.type === "single" ? "radio" : "checkbox"}
+          label="Option"
+        />
+      )}
+
+      {draft.type === "multi" && (
+        <label className="flex items-center gap-2 text-sm text-slate-200">
+          <input
+            type="checkbox"
+            checked={draft.partialCredit}
+            onChange={(e) => set({ partialCredit: e.target.checked })}
+          />
+          Partial credit: each correct pick earns a share, each wrong pick takes one back
+        </label>
+      )}
+
+      {draft.type === "ordering" && (
+        <ListEditor
+          values={draft.options}
+          onChange={(options) => set({ options })}
+          label="Item"
+          hint="List the items in the correct order; students see them shuffled."
+        />
+      )}
+
+      {draft.type === "truefalse" && (
+        <div className="flex gap-4 text-slate-200">
+          {[true, false].map((v) => (
+            <label key={String(v)} className="flex items-center gap-2">
+              <input type="radio" checked={draft.truth === v} onChange={() => set({ truth: v })} />
+              {v ? "True" : "False"} is correct
+            </label>
+          ))}
+        </div>
+      )}
+
+      {draft.type === "numeric" && (
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            className={fieldClass}
+            inputMode="decimal"
+            placeholder="Correct value"
+            value={draft.numeric}
+            onChange={(e) => set({ numeric: e.target.value })}
+            required
+          />
+          <input
+            className={fieldClass}
+            inputMode="decimal"
+            placeholder="Tolerance (± , optional)"
+            value={draft.tolerance}
+            onChange={(e) => set({ tolerance: e.target.value })}
+          />
+        </div>
+      )}
+
+      {draft.type === "text" && (
+        <>
+          <textarea
+            className={fieldClass}
+            placeholder={
+              draft.matchMode === "regex" ? "Accepted patterns (one per line)" : "Accepted answers (one per line)"
+            }
+            value={draft.accepted}
+            onChange={(e) => set({ accepted: e.target.value })}
+            required
+          />
+          <div className="flex items-center gap-4 text-slate-200">
+            <select
+              className="border border-white/10 bg-white/10 text-white p-2 rounded"
+              value={draft.matchMode}
+              onChange={(e) => set({ matchMode: e.target.value as Draft["matchMode"] })}
+              aria-label="Match mode"
+            >
+              <option value="exact" className="bg-[#0f172a]">Exact match</option>
+              <option value="regex" className="bg-[#0f172a]">Regular expression</option>
+            </select>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.caseSensitive}
+                onChange={(e) => set({ caseSensitive: e.target.checked })}
+              />
+              Case-sensitive
+            </label>
+          </div>
+        </>
+      )}
+
+      <textarea
+        className={`${fieldClass} text-sm`}
+        placeholder="Explanation shown with the answer (optional) — why the correct answer is right"
+        value={draft.explanation}
+        onChange={(e) => set({ explanation: e.target.value })}
+      />
+
+      {err && <p className="text-rose-300 text-sm">{err}</p>}
+      <div className="flex gap-2">
+        <button
+          className="px-3 py-1 bg-emerald-600 hover:bg-emerald-500 text-white rounded disabled:opacity-60"
+          disabled={saving}
+        >
+          {question ? (saving ? "Saving…" : "Save") : saving ? "Adding…" : "Add Question"}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            className="px-3 py-1 rounded border border-white/10 bg-white/5 text-white hover:bg-white/10"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+/** Live render of the draft as students will see it. */
+function QuestionPreview({ draft }: { draft: Draft }) {
+  const choice = draft.type === "single" || draft.type === "multi";
+  const list = choice || draft.type === "ordering" ? draft.options : [];
+  return (
+    <div className="p-2 rounded border border-dashed border-white/10 text-slate-200 min-h-[8rem] overflow-auto">
+      <div className="text-xs uppercase tracking-wide text-slate-500 mb-1">Preview</div>
+      {draft.text.trim() ? <RichText text={draft.text} /> : <p className="text-slate-500">Nothing to preview yet.</p>}
+      <QuestionMedia attachments={draft.attachments} />
+      {list.some((o, i) => o.trim() || (choice && draft.optionImages[i])) && (
+        <ul className="mt-2 space-y-1 text-sm">
+          {list.map((o, i) => (
+            <li key={i} className="flex gap-2">
+              <span className="text-slate-500">{draft.type === "ordering" ? `${i + 1}.` : "○"}</span>
+              <span>
+                {choice && draft.optionImages[i] && (
+                  <MediaImage image={draft.optionImages[i]} className="max-h-24 rounded mb-1 block" />
+                )}
+                <RichText text={o} inline />
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/** One input per option, with a radio/checkbox for marking the correct ones. */
+function ListEditor({
+  values,
+  onChange,
+  correct = [],
+  images,
+  onImages,
+  feedback,
+  onFeedback,
+  onCorrect,
+  mark,
+  label,
+  hint,
+}: {
+  values: string[];
+  /** `correct` and `removed` are passed when removing a row shifted the indexes. */
+  onChange: (values: string[], correct?: number[], removed?: number) => void;
+  correct?: number[];
+  /** Per-row images; rows get an image slot when `onImages` is set. */
+  images?: (Attachment | null)[];
+  onImages?: (i: number, update: (list: Attachment[]) => Attachment[]) => void;
+  /** Per-row feedback for students who pick the row; shown when `onFeedback` is set. */
+  feedback?: string[];
+  onFeedback?: (i: number, value: string) => void;
+  onCorrect?: (i: number) => void;
+  mark?: "radio" | "checkbox";
+  label: string;
+  hint?: string;
+}) {
+  function remove(i: number) {
+    onChange(
+      values.filter((_, j) => j !== i),
+      correct.filter((c) => c !== i).map((c) => (c > i ? c - 1 : c)),
+      i
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {hint && <p className="text-sm text-slate-400">{hint}</p>}
+      {mark && <p className="text-sm text-slate-400">Mark the correct {mark === "radio" ? "option" : "options"}.</p>}
+      {values.map((v, i) => (
+        <div key={i} className="space-y-1">
+          <div className="flex items-center gap-2">
+            {mark ? (
+              <input
+                type={mark}
+                checked={correct.includes(i)}
+                onChange={() => onCorrect?.(i)}
+                aria-label={`${label} ${i + 1} is correct`}
+              />
+            ) : (
+              <span className="w-5 text-slate-400 text-sm">{i + 1}.</span>
+            )}
+            <input
+              className={fieldClass}
+              placeholder={`${label} ${i + 1}`}
+              value={v}
+              onChange={(e) => onChange(values.map((x, j) => (j === i ? e.target.value : x)))}
+            />
+            <button
+              type="button"
+              className="px-2 py-1 rounded border border-white/10 bg-white/5 text-slate-300 hover:bg-white/10 disabled:opacity-40"
+              onClick={() => remove(i)}
+              disabled={values.length <= 2}
+              aria-label={`Remove ${label.toLowerCase()} ${i + 1}`}
+            >
+              ✕
+            </button>
+          </div>
+          {(onImages || onFeedback) && (
+            <div className="pl-7 space-y-1">
+              {onFeedback && (
+                <input
+                  className="w-full border border-white/10 bg-white/5 placeholder:text-slate-500 text-slate-200 px-2 py-1 rounded text-sm"
+                  placeholder="Feedback when picked (optional)"
+                  value={feedback?.[i] ?? ""}
+                  onChange={(e) => onFeedback(i, e.target.value)}
+                  aria-label={`Feedback for ${label.toLowerCase()} ${i + 1}`}
+                />
+              )}
+              {onImages && (
+                <AttachmentEditor
+                  value={images?.[i] ? [images[i]] : []}
+                  onChange={(update) => onImages(i, update)}
+                  max={1}
+                  imagesOnly
+                  compact
+                />
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+      <button
+        type="button"
+        className="px-2 py-1 text-sm rounded border border-white/10 bg-white/5 text-slate-200 hover:bg-white/10"
+        onClick={() => onChange([...values, ""])}
+      >
+        + Add {label.toLowerCase()}
+      </button>
+    </div>
+  );
+}
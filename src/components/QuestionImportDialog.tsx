@@ -0,0 +1,222 @@
+import { useMemo, useState } from "react";
+import { api, errorMessage, type Question } from "../api";
+import { describeCorrect, questionTypeLabel } from "../utils/questions";
+import {
+  formatFromFileName,
+  parseQuestions,
+  type ImportFormat,
+  type ImportRow,
+} from "../utils/questionImport";
+
+type Props = {
+  quizId: number;
+  onImported: (questions: Question[]) => void;
+  onClose: () => void;
+};
+
+const FORMAT_HELP: Record<ImportFormat, string> = {
+  csv: "Columns: text, options, correct. Separate options with | and use 0-based indexes (0|2 for several correct options).",
+  json: "A quiz's JSON export, or an array of questions in the same shape, e.g. [{\"type\":\"single\",\"text\":…,\"options\":[…],\"correctOptionIndex\":0}]. Only the questions are imported; an export's quiz settings are not.",
+  gift: "Moodle GIFT: multiple choice, true/false, short answer and numeric questions, separated by blank lines.",
+};
+
+export default function QuestionImportDialog({ quizId, onImported, onClose }: Props) {
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [source, setSource] = useState("");
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [picked, setPicked] = useState<Set<number>>(new Set());
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [err, setErr] = useState("");
+
+  const validCount = useMemo(() => rows?.filter((r) => r.input).length ?? 0, [rows]);
+
+  function preview(text = source, fmt = format) {
+    setErr("");
+    const parsed = parseQuestions(fmt, text);
+    setRows(parsed);
+    setPicked(new Set(parsed.flatMap((r, i) => (r.input ? [i] : []))));
+  }
+
+  async function readFile(file: File) {
+    const fmt = formatFromFileName(file.name) ?? format;
+    const text = await file.text();
+    setFormat(fmt);
+    setSource(text);
+    preview(text, fmt);
+  }
+
+  function toggle(i: number) {
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(i)) next.delete(i);
+      else next.add(i);
+      return next;
+    });
+  }
+
+  // Created one by one so questions keep the file's order.
+  async function importPicked() {
+    if (!rows) return;
+    const chosen = [...picked].sort((a, b) => a - b);
+    const created: Question[] = [];
+    setErr("");
+    setProgress({ done: 0, total: chosen.length });
+    try {
+      for (const i of chosen) {
+        created.push(await api.quiz.addQuestion(quizId, rows[i].input!));
+        setProgress({ done: created.length, total: chosen.length });
+      }
+      onImported(created);
+      onClose();
+    } catch (e) {
+      // Drop what already went through so a retry doesn't create duplicates.
+      const imported = new Set(chosen.slice(0, created.length));
+      const remaining = rows.map((r, i) => ({ r, i })).filter(({ i }) => !imported.has(i));
+      setRows(remaining.map(({ r }) => r));
+      setPicked(new Set(remaining.flatMap(({ i }, j) => (picked.has(i) ? [j] : []))));
+      if (created.length) onImported(created);
+      setErr(errorMessage(e, `Import stopped after ${created.length} of ${chosen.length} questions`));
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-labelledby="question-import-title"
+        className="bg-[#0f172a] text-white rounded-2xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col border border-white/10"
+      >
+        <div className="p-4 border-b border-white/10 flex items-center justify-between">
+          <div id="question-import-title" className="text-lg font-semibold">
+            Import questions
+          </div>
+          <button className="text-slate-400 hover:text-white" onClick={onClose} aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto">
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              className="border border-white/10 bg-white/10 text-white p-2 rounded"
+              value={format}
+              onChange={(e) => {
+                setFormat(e.target.value as ImportFormat);
+                setRows(null);
+              }}
+              aria-label="Format"
+            >
+              <option value="csv" className="bg-[#0f172a]">CSV</option>
+              <option value="json" className="bg-[#0f172a]">JSON</option>
+              <option value="gift" className="bg-[#0f172a]">GIFT</option>
+            </select>
+            <input
+              type="file"
+              accept=".csv,.json,.gift,.txt"
+              className="text-sm text-slate-300"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) readFile(file).catch((e) => setErr(errorMessage(e, "Could not read the file")));
+              }}
+            />
+          </div>
+          <p className="text-sm text-slate-400">{FORMAT_HELP[format]}</p>
+          <textarea
+            className="w-full h-32 font-mono text-sm border border-white/10 bg-white/10 placeholder:text-slate-400 text-white p-2 rounded"
+            placeholder="…or paste here"
+            value={source}
+            onChange={(e) => {
+              setSource(e.target.value);
+              setRows(null);
+            }}
+          />
+          <button
+            className="px-3 py-1 rounded border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-50"
+            onClick={() => preview()}
+            disabled={!source.trim()}
+          >
+            Preview
+          </button>
+
+          {err && <p className="text-rose-300 text-sm">{err}</p>}
+
+          {rows && (
+            <div className="overflow-x-auto rounded border border-white/10">
+              <table className="min-w-full text-sm">
+                <thead className="bg-white/5 text-slate-300">
+                  <tr>
+                    <th className="py-2 px-3 w-8">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all valid rows"
+                        checked={validCount > 0 && picked.size === validCount}
+                        onChange={(e) =>
+                          setPicked(
+                            new Set(e.target.checked ? rows.flatMap((r, i) => (r.input ? [i] : [])) : [])
+                          )
+                        }
+                      />
+                    </th>
+                    <th className="py-2 px-3 text-left">Source</th>
+                    <th className="py-2 px-3 text-left">Type</th>
+                    <th className="py-2 px-3 text-left">Question</th>
+                    <th className="py-2 px-3 text-left">Correct / errors</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/10">
+                  {rows.map((r, i) => (
+                    <tr key={i} className={r.input ? "" : "bg-rose-500/10"}>
+                      <td className="py-2 px-3">
+                        <input
+                          type="checkbox"
+                          checked={picked.has(i)}
+                          disabled={!r.input}
+                          onChange={() => toggle(i)}
+                          aria-label={`Import ${r.source}`}
+                        />
+                      </td>
+                      <td className="py-2 px-3 text-slate-400 whitespace-nowrap">{r.source}</td>
+                      <td className="py-2 px-3 whitespace-nowrap">{r.input ? questionTypeLabel(r.input.type) : "—"}</td>
+                      <td className="py-2 px-3">{r.input?.text ?? "—"}</td>
+                      <td className="py-2 px-3">
+                        {r.input ? (
+                          <span className="text-slate-300">{describeCorrect({ id: 0, ...r.input }) ?? "—"}</span>
+                        ) : (
+                          <ul className="text-rose-300">
+                            {r.errors.map((e) => (
+                              <li key={e}>{e}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-white/10 flex items-center justify-between gap-2">
+          <span className="text-sm text-slate-400">
+            {rows && `${validCount} of ${rows.length} rows valid · ${picked.size} selected`}
+          </span>
+          <div className="flex gap-2">
+            <button className="px-3 py-1.5 rounded border border-white/10 bg-white/5" onClick={onClose}>
+              Cancel
+            </button>
+            <button
+              className="px-3 py-1.5 rounded bg-emerald-600 hover:bg-emerald-500 text-white disabled:opacity-60"
+              onClick={importPicked}
+              disabled={!picked.size || progress !== null}
+            >
+              {progress ? `Importing ${progress.done}/${progress.total}…` : `Import ${picked.size} questions`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { mediaUrl, type Attachment } from "../api";
+
+/** Images and files attached to a question, shown under its text. Images load as they scroll into view. */
+export default function QuestionMedia({ attachments }: { attachments?: Attachment[] }) {
+  if (!attachments?.length) return null;
+  const images = attachments.filter((a) => a.mimeType.startsWith("image/"));
+  const files = attachments.filter((a) => !a.mimeType.startsWith("image/"));
+
+  return (
+    <div className="my-2 space-y-2">
+      {images.map((a) => (
+        <MediaImage key={a.url} image={a} className="max-h-96 max-w-full rounded border border-white/10" />
+      ))}
+      {files.length > 0 && (
+        <ul className="flex flex-wrap gap-2 text-sm">
+          {files.map((a) => (
+            <li key={a.url}>
+              <a
+                href={mediaUrl(a.url)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="px-2 py-1 rounded bg-white/10 text-sky-300 hover:underline"
+              >
+                📎 {a.alt || a.name || "Attachment"}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/** An image sized from its stored dimensions so the page doesn't jump while it loads. */
+export function MediaImage({ image, className }: { image: Attachment; className?: string }) {
+  return (
+    <img
+      src={mediaUrl(image.url)}
+      alt={image.alt}
+      width={image.width}
+      height={image.height}
+      loading="lazy"
+      decoding="async"
+      className={`h-auto ${className ?? ""}`}
+    />
+  );
+}
@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  api,
+  errorMessage,
+  isAbortError,
+  isMissingRoute,
+  isUnauthorized,
+  type AccessCodeUse,
+  type EnrolledStudent,
+  type Quiz,
+  type QuizAccess,
+} from "../api";
+import { parseEmails } from "../utils/emails";
+
+type Props = {
+  quiz: Quiz;
+  onChange: (quiz: Quiz) => void;
+};
+
+const ACCESS_OPTIONS: { value: QuizAccess; label: string }[] = [
+  { value: "open", label: "Every student" },
+  { value: "code", label: "Students with the access code" },
+  { value: "enrolled", label: "Enrolled students only" },
+];
+
+const inputClass = "px-2 py-1 text-sm rounded border border-white/10 bg-white/10 text-white";
+const buttonClass = "px-3 py-1.5 rounded text-sm border disabled:opacity-50";
+
+export default function QuizAccessPanel({ quiz, onChange }: Props) {
+  const access = quiz.access ?? "open";
+  // Course quizzes use the course's roster rather than one of their own.
+  const courseRoster = access === "enrolled" && !!quiz.courseId;
+  const [uses, setUses] = useState<AccessCodeUse[]>([]);
+  const [roster, setRoster] = useState<EnrolledStudent[]>([]);
+  const [emails, setEmails] = useState("");
+  const [notFound, setNotFound] = useState<string[]>([]);
+  const [unavailable, setUnavailable] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState("");
+  const [err, setErr] = useState("");
+
+  useEffect(() => {
+    if (access === "open" || courseRoster) return;
+    const ctrl = new AbortController();
+    const load =
+      access === "code"
+        ? api.quiz.codeUses(quiz.id, { signal: ctrl.signal }).then(setUses)
+        : api.quiz.enrollment(quiz.id, { signal: ctrl.signal }).then(setRoster);
+    load.catch((e) => {
+      if (isMissingRoute(e)) setUnavailable(true);
+      else if (!isAbortError(e) && !isUnauthorized(e))
+        setErr(errorMessage(e, access === "code" ? "Failed to load code uses" : "Failed to load the roster"));
+    });
+    return () => ctrl.abort();
+  }, [quiz.id, access, courseRoster]);
+
+  async function run(action: () => Promise<void>, done: string, failed: string) {
+    setErr("");
+    setMsg("");
+    setBusy(true);
+    try {
+      await action();
+      setMsg(done);
+    } catch (e) {
+      if (!isUnauthorized(e)) setErr(errorMessage(e, failed));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function setAccess(next: QuizAccess) {
+    setUnavailable(false);
+    setNotFound([]);
+    run(async () => onChange(await api.quiz.update(quiz.id, { access: next })), "Access saved", "Update failed");
+  }
+
+  function regenerate() {
+    if (quiz.accessCode && !confirm("Replace the access code? The current one stops working straight away.")) return;
+    run(
+      async () => onChange(await api.quiz.regenerateCode(quiz.id)),
+      "New access code generated",
+      "Could not generate a code"
+    );
+  }
+
+  function enroll() {
+    const list = parseEmails(emails);
+    if (!list.length) return;
+    run(
+      async () => {
+        const result = await api.quiz.enroll(quiz.id, list);
+        setRoster(result.enrolled);
+        setNotFound(result.notFound);
+        setEmails(result.notFound.join("\n"));
+      },
+      "Roster updated",
+      "Enrolling failed"
+    );
+  }
+
+  function unenroll(student: EnrolledStudent) {
+    if (!confirm(`Remove ${student.email} from this quiz?`)) return;
+    run(
+      async () => {
+        await api.quiz.unenroll(quiz.id, student.id);
+        setRoster((prev) => prev.filter((s) => s.id !== student.id));
+      },
+      `${student.email} removed`,
+      "Removing failed"
+    );
+  }
+
+  return (
+    <div className="mb-4 p-3 rounded border border-white/10 bg-white/5 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-medium">Access</h3>
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          Who can take it
+          <select
+            className={inputClass}
+            value={access}
+            onChange={(e) => setAccess(e.target.value as QuizAccess)}
+            disabled={busy}
+          >
+            {ACCESS_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value} className="bg-[#0f172a]">
+                {o.value === "enrolled" && quiz.courseId ? "Students in the course" : o.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {access === "code" && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {quiz.accessCode ? (
+              <>
+                <code className="px-3 py-1 rounded bg-black/30 text-lg tracking-widest text-amber-200">
+                  {quiz.accessCode}
+                </code>
+                <button
+                  className={`${buttonClass} bg-white/10 text-slate-200 border-white/10`}
+                  onClick={() =>
+                    navigator.clipboard?.writeText(quiz.accessCode ?? "").then(() => setMsg("Code copied"))
+                  }
+                >
+                  Copy
+                </button>
+              </>
+            ) : (
+              <span className="text-slate-400">No code yet.</span>
+            )}
+            <button
+              className={`${buttonClass} bg-amber-500/20 text-amber-200 border-amber-500/30`}
+              onClick={regenerate}
+              disabled={busy}
+            >
+              {quiz.accessCode ? "Regenerate" : "Generate code"}
+            </button>
+          </div>
+
+          {unavailable ? (
+            <p className="text-xs text-slate-500">This server doesn't report who used the code.</p>
+          ) : uses.length ? (
+            <div>
+              <div className="text-sm text-slate-300 mb-1">Used by</div>
+              <ul className="text-sm divide-y divide-white/5 max-h-48 overflow-y-auto">
+                {uses.map((u, i) => (
+                  <li key={`${u.student.id}-${u.usedAt}-${i}`} className="flex justify-between gap-2 py-1">
+                    <span>{u.student.name ?? u.student.email}</span>
+                    <span className="text-slate-400">{new Date(u.usedAt).toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">Nobody has used the code yet.</p>
+          )}
+        </>
+      )}
+
+      {courseRoster && (
+        <p className="text-sm text-slate-400">
+          Students on the{" "}
+          <Link to={`/courses/${quiz.courseId}?tab=roster`} className="text-sky-300 hover:underline">
+            course roster
+          </Link>{" "}
+          can take this quiz.
+        </p>
+      )}
+
+      {access === "enrolled" &&
+        !courseRoster &&
+        (unavailable ? (
+          <p className="text-xs text-slate-500">This server doesn't support enrollment lists.</p>
+        ) : (
+          <>
+            {roster.length ? (
+              <ul className="text-sm divide-y divide-white/5 max-h-48 overflow-y-auto">
+                {roster.map((s) => (
+                  <li key={s.id} className="flex items-center justify-between gap-2 py-1">
+                    <span>
+                      {s.email}
+                      {s.name && <span className="text-slate-400"> · {s.name}</span>}
+                    </span>
+                    <button
+                      className="px-2 py-0.5 rounded text-xs text-rose-200 hover:bg-rose-500/20 disabled:opacity-50"
+                      onClick={() => unenroll(s)}
+                      disabled={busy}
+                      aria-label={`Remove ${s.email}`}
+                    >
+                      ✕
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-slate-500">No students enrolled yet. Only enrolled students see this quiz.</p>
+            )}
+            <div className="flex flex-wrap items-end gap-2">
+              <textarea
+                className={`${inputClass} flex-1 min-w-[16rem]`}
+                rows={2}
+                placeholder="Student emails, one per line or comma-separated"
+                value={emails}
+                onChange={(e) => setEmails(e.target.value)}
+              />
+              <button
+                className={`${buttonClass} bg-sky-600 hover:bg-sky-500 text-white border-sky-500`}
+                onClick={enroll}
+                disabled={busy || !parseEmails(emails).length}
+              >
+                Enroll
+              </button>
+            </div>
+            {notFound.length > 0 && (
+              <p className="text-sm text-amber-200">No student account for: {notFound.join(", ")}</p>
+            )}
+          </>
+        ))}
+
+      {err && <div className="text-sm text-rose-300">{err}</div>}
+      {msg && !err && <div className="text-sm text-emerald-300">{msg}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import type { FeedbackTiming, Quiz, QuizInput, QuizMode, ScoringPolicy } from "../api";
+import { SCORING_POLICIES } from "../utils/attemptPolicy";
+import { FEEDBACK_TIMINGS } from "../utils/feedback";
+import { DEFAULT_PASS_MARK } from "../utils/scoring";
+
+type Props = {
+  quiz: Quiz;
+  onSave: (input: Partial<QuizInput>) => Promise<void>;
+};
+
+const inputClass = "px-2 py-1 text-sm rounded border border-white/10 bg-white/10 text-white disabled:opacity-50";
+
+const toCount = (value: string) => (value === "" ? "" : Math.max(1, Math.floor(Number(value))));
+const toPercent = (value: string) => (value === "" ? "" : Math.min(100, Math.max(0, Math.round(Number(value)))));
+
+const PRACTICE_NOTE = "Practice quizzes allow unlimited retries and give feedback after every answer";
+
+export default function QuizAttemptSettings({ quiz, onSave }: Props) {
+  const [mode, setMode] = useState<QuizMode>(quiz.mode ?? "exam");
+  const [maxAttempts, setMaxAttempts] = useState<number | "">(quiz.maxAttempts ?? "");
+  const [cooldown, setCooldown] = useState<number | "">(quiz.attemptCooldownMinutes ?? "");
+  const [policy, setPolicy] = useState<ScoringPolicy>(quiz.scoringPolicy ?? "best");
+  const [passMark, setPassMark] = useState<number | "">(quiz.passMark ?? DEFAULT_PASS_MARK);
+  // Edited as a percentage of the question's points; stored as a fraction.
+  const [penalty, setPenalty] = useState<number | "">(quiz.negativeMarking ? Math.round(quiz.negativeMarking * 100) : "");
+  const [monitored, setMonitored] = useState(!!quiz.monitored);
+  const [feedbackTiming, setFeedbackTiming] = useState<FeedbackTiming>(quiz.feedbackTiming ?? "after_submit");
+  const [saving, setSaving] = useState(false);
+
+  const practice = mode === "practice";
+  const changed =
+    mode !== (quiz.mode ?? "exam") ||
+    (maxAttempts || null) !== (quiz.maxAttempts ?? null) ||
+    (cooldown || null) !== (quiz.attemptCooldownMinutes ?? null) ||
+    policy !== (quiz.scoringPolicy ?? "best") ||
+    (passMark === "" ? DEFAULT_PASS_MARK : passMark) !== (quiz.passMark ?? DEFAULT_PASS_MARK) ||
+    (penalty ? penalty / 100 : null) !== (quiz.negativeMarking || null) ||
+    feedbackTiming !== (quiz.feedbackTiming ?? "after_submit") ||
+    monitored !== !!quiz.monitored;
+
+  async function save() {
+    setSaving(true);
+    try {
+      await onSave({
+        mode,
+        maxAttempts: maxAttempts || null,
+        attemptCooldownMinutes: cooldown || null,
+        scoringPolicy: policy,
+        passMark: passMark === "" ? DEFAULT_PASS_MARK : passMark,
+        negativeMarking: penalty ? penalty / 100 : null,
+        feedbackTiming,
+        monitored,
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="mb-4 flex flex-wrap items-end gap-3 text-sm text-slate-300">
+      <label className="flex flex-col gap-1">
+        Mode
+        <select className={inputClass} value={mode} onChange={(e) => setMode(e.target.value as QuizMode)}>
+          <option value="exam" className="bg-[#0f172a]">Exam (graded)</option>
+          <option value="practice" className="bg-[#0f172a]">Practice (not graded)</option>
+        </select>
+      </label>
+      <label className="flex flex-col gap-1" title={practice ? PRACTICE_NOTE : undefined}>
+        Max attempts
+        <input
+          type="number"
+          min={1}
+          className={`${inputClass} w-28`}
+          placeholder="Unlimited"
+          disabled={practice}
+          value={maxAttempts}
+          onChange={(e) => setMaxAttempts(toCount(e.target.value))}
+        />
+      </label>
+      <label className="flex flex-col gap-1" title={practice ? PRACTICE_NOTE : undefined}>
+        Wait between attempts (min)
+        <input
+          type="number"
+          min={1}
+          className={`${inputClass} w-28`}
+          placeholder="None"
+          disabled={practice}
+          value={cooldown}
+          onChange={(e) => setCooldown(toCount(e.target.value))}
+        />
+      </label>
+      <label className="flex flex-col gap-1" title={practice ? PRACTICE_NOTE : undefined}>
+        Score that counts
+        <select
+          className={inputClass}
+          value={policy}
+          disabled={practice}
+          onChange={(e) => setPolicy(e.target.value as ScoringPolicy)}
+        >
+          {SCORING_POLICIES.map((p) => (
+            <option key={p.value} value={p.value} className="bg-[#0f172a]">
+              {p.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1">
+        Pass mark (%)
+        <input
+          type="number"
+          min={0}
+          max={100}
+          className={`${inputClass} w-24`}
+          value={passMark}
+          onChange={(e) => setPassMark(toPercent(e.target.value))}
+        />
+      </label>
+      <label className="flex flex-col gap-1" title="Share of a question's points lost for a wrong answer">
+        Wrong answer penalty (%)
+        <input
+          type="number"
+          min={0}
+          max={100}
+          className={`${inputClass} w-24`}
+          placeholder="None"
+          value={penalty}
+          onChange={(e) => setPenalty(toPercent(e.target.value))}
+        />
+      </label>
+      <label
+        className="flex flex-col gap-1"
+        title={practice ? PRACTICE_NOTE : "When students see correct answers, explanations and option feedback"}
+      >
+        Show answers
+        <select
+          className={inputClass}
+          value={practice ? "immediate" : feedbackTiming}
+          disabled={practice}
+          onChange={(e) => setFeedbackTiming(e.target.value as FeedbackTiming)}
+        >
+          {FEEDBACK_TIMINGS.map((t) => (
+            <option key={t.value} value={t.value} className="bg-[#0f172a]">
+              {t.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label
+        className="flex items-center gap-2 py-1"
+        title="Students are told up front; tab switches, focus loss, copy/paste and right-clicks are logged"
+      >
+        <input type="checkbox" checked={monitored} onChange={(e) => setMonitored(e.target.checked)} />
+        Monitored
+      </label>
+      <button
+        className="px-3 py-1.5 rounded text-sm bg-white/10 text-slate-200 border border-white/10 disabled:opacity-50"
+        onClick={save}
+        disabled={saving || !changed}
+      >
+        {saving ? "Saving…" : "Save rules"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import type { Quiz, QuizSchedule, QuizStatus } from "../api";
+import { STATUS_LABELS, quizStatus } from "../utils/quizStatus";
+import { fmtUntil } from "../utils/time";
+
+const STATUS_STYLES: Record<QuizStatus, string> = {
+  draft: "bg-white/10 text-slate-300",
+  scheduled: "bg-sky-500/20 text-sky-300",
+  open: "bg-emerald-500/20 text-emerald-300",
+  closed: "bg-amber-500/20 text-amber-300",
+  archived: "bg-white/5 text-slate-500",
+};
+
+const badge = "px-2 py-0.5 text-xs rounded whitespace-nowrap";
+
+type Props = {
+  quiz: QuizSchedule & Pick<Quiz, "mode" | "access">;
+  /** Also show the status itself, for instructors. Students only see the countdowns. */
+  showStatus?: boolean;
+};
+
+export default function QuizAvailability({ quiz, showStatus }: Props) {
+  const now = Date.now();
+  const status = quizStatus(quiz, now);
+  const countdown =
+    status === "scheduled" && quiz.opensAt
+      ? `Opens in ${fmtUntil(Date.parse(quiz.opensAt) - now)}`
+      : status === "open" && quiz.closesAt
+        ? `Closes in ${fmtUntil(Date.parse(quiz.closesAt) - now)}`
+        : null;
+
+  const practice = quiz.mode === "practice";
+  const access =
+    quiz.access === "code" ? "Access code" : quiz.access === "enrolled" && showStatus ? "Enrolled only" : null;
+  if (!showStatus && !countdown && !practice && !access) return null;
+
+  return (
+    <span className="inline-flex flex-wrap gap-1 align-middle">
+      {showStatus && <span className={`${badge} ${STATUS_STYLES[status]}`}>{STATUS_LABELS[status]}</span>}
+      {practice && (
+        <span className={`${badge} bg-violet-500/20 text-violet-300`} title="Doesn't count toward grades">
+          Practice
+        </span>
+      )}
+      {access && <span className={`${badge} bg-amber-500/10 text-amber-200`}>🔒 {access}</span>}
+      {countdown && (
+        <span
+          className={`${badge} ${status === "scheduled" ? STATUS_STYLES.scheduled : STATUS_STYLES.closed}`}
+          title={new Date((status === "scheduled" ? quiz.opensAt : quiz.closesAt) as string).toLocaleString()}
+        >
+          {countdown}
+        </span>
+      )}
+    </span>
+  );
+}
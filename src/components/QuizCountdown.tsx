@@ -0,0 +1,20 @@
+import { fmtClock } from "../utils/time";
+
+export default function QuizCountdown({ remainingMs }: { remainingMs: number }) {
+  const tone =
+    remainingMs <= 60_000
+      ? "bg-rose-500/20 text-rose-300 border-rose-500/30"
+      : remainingMs <= 5 * 60_000
+      ? "bg-amber-500/20 text-amber-300 border-amber-500/30"
+      : "bg-white/5 text-slate-200 border-white/10";
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-1 rounded border font-mono text-sm ${tone}`}
+      role="timer"
+      aria-label="Time remaining"
+    >
+      ⏱ {fmtClock(remainingMs)}
+    </span>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useRef, useState } from "react";
+import { api, errorMessage, isUnauthorized, type Quiz } from "../api";
+import { downloadFile, fileSlug } from "../utils/download";
+import { exportCsv, exportJson, exportQti, printQuiz } from "../utils/quizExport";
+
+type ExportKind = "json" | "csv" | "qti" | "print" | "print-key";
+
+const ITEMS: { kind: ExportKind; label: string }[] = [
+  { kind: "json", label: "JSON bundle (questions re-importable)" },
+  { kind: "csv", label: "CSV" },
+  { kind: "qti", label: "IMS QTI 2.1 (.zip)" },
+  { kind: "print", label: "Print / PDF" },
+  { kind: "print-key", label: "Print / PDF with answer key" },
+];
+
+type Props = {
+  quiz: Quiz;
+  className?: string;
+  /** Reports results such as skipped questions or errors to the page. */
+  onMessage?: (msg: string, type: "info" | "error") => void;
+};
+
+export default function QuizExportMenu({ quiz, className, onMessage }: Props) {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    function onClick(e: MouseEvent) {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    }
+    document.addEventListener("mousedown", onClick);
+    return () => document.removeEventListener("mousedown", onClick);
+  }, [open]);
+
+  async function run(kind: ExportKind) {
+    setOpen(false);
+    setBusy(true);
+    const printWin = kind === "print" || kind === "print-key" ? window.open("", "_blank") : null;
+    try {
+      const questions = await api.quiz.questions(quiz.id);
+      const name = fileSlug(quiz.title);
+      switch (kind) {
+        case "json":
+          downloadFile(`${name}.json`, exportJson(quiz, questions), "application/json");
+          break;
+        case "csv": {
+          const { csv, skipped } = exportCsv(questions);
+          downloadFile(`${name}.csv`, csv, "text/csv");
+          if (skipped)
+            onMessage?.(
+              `${skipped} question${skipped === 1 ? "" : "s"} can't be expressed as CSV and were left out. Use JSON for a full copy.`,
+              "info"
+            );
+          break;
+        }
+        case "qti":
+          downloadFile(`${name}-qti.zip`, exportQti(quiz, questions));
+          break;
+        case "print":
+        case "print-key":
+          printQuiz(printWin, quiz, questions, kind === "print-key");
+          break;
+      }
+    } catch (e) {
+      printWin?.close();
+      if (!isUnauthorized(e)) onMessage?.(errorMessage(e, "Export failed"), "error");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div ref={rootRef} className="relative inline-block">
+      <button
+        className={className ?? "px-2 py-1 text-sm rounded bg-white/10 text-slate-200 border border-white/10"}
+        onClick={() => setOpen((o) => !o)}
+        disabled={busy}
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        {busy ? "Exporting…" : "Export ▾"}
+      </button>
+      {open && (
+        <div
+          role="menu"
+          className="absolute right-0 z-20 mt-1 w-64 rounded-lg border border-white/10 bg-[#0f172a] shadow-xl py-1 text-left"
+        >
+          {ITEMS.map((it) => (
+            <button
+              key={it.kind}
+              role="menuitem"
+              className="block w-full text-left px-3 py-1.5 text-sm text-slate-200 hover:bg-white/10"
+              onClick={() => run(it.kind)}
+            >
+              {it.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { api, errorMessage, isUnauthorized, type Question, type Quiz } from "../api";
+import QuizAvailability from "./QuizAvailability";
+import { publishProblems, quizStatus, scheduleProblem } from "../utils/quizStatus";
+import { fromLocalInput, toLocalInput } from "../utils/time";
+
+type Props = {
+  quiz: Quiz;
+  /** The quiz's current questions, checked before publishing. */
+  questions: Question[];
+  onChange: (quiz: Quiz) => void;
+};
+
+const inputClass = "px-2 py-1 text-sm rounded border border-white/10 bg-white/10 text-white [color-scheme:dark]";
+const buttonClass = "px-3 py-1.5 rounded text-sm border disabled:opacity-50";
+
+export default function QuizPublishPanel({ quiz, questions, onChange }: Props) {
+  const [opensAt, setOpensAt] = useState(toLocalInput(quiz.opensAt));
+  const [closesAt, setClosesAt] = useState(toLocalInput(quiz.closesAt));
+  const [busy, setBusy] = useState(false);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [msg, setMsg] = useState("");
+  const [err, setErr] = useState("");
+
+  const status = quizStatus(quiz);
+  const schedule = { opensAt: fromLocalInput(opensAt), closesAt: fromLocalInput(closesAt) };
+  const scheduleChanged =
+    schedule.opensAt !== fromLocalInput(toLocalInput(quiz.opensAt)) ||
+    schedule.closesAt !== fromLocalInput(toLocalInput(quiz.closesAt));
+
+  async function run(action: () => Promise<Quiz>, done: string) {
+    setErr("");
+    setMsg("");
+    setBusy(true);
+    try {
+      const updated = await action();
+      onChange(updated);
+      setOpensAt(toLocalInput(updated.opensAt));
+      setClosesAt(toLocalInput(updated.closesAt));
+      setMsg(done);
+    } catch (e) {
+      if (!isUnauthorized(e)) setErr(errorMessage(e, "Update failed"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function publish() {
+    const found = publishProblems({ ...quiz, ...schedule }, questions);
+    setProblems(found);
+    if (found.length) return;
+    run(async () => {
+      if (scheduleChanged) await api.quiz.update(quiz.id, schedule);
+      return api.quiz.publish(quiz.id);
+    }, "Quiz published");
+  }
+
+  return (
+    <div className="mb-4 p-3 rounded border border-white/10 bg-white/5 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">Availability</h3>
+        <QuizAvailability quiz={quiz} showStatus />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 text-sm text-slate-300">
+        <label className="flex flex-col gap-1">
+          Opens
+          <input
+            type="datetime-local"
+            className={inputClass}
+            value={opensAt}
+            onChange={(e) => setOpensAt(e.target.value)}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Closes
+          <input
+            type="datetime-local"
+            className={inputClass}
+            value={closesAt}
+            onChange={(e) => setClosesAt(e.target.value)}
+          />
+        </label>
+        <button
+          className={`${buttonClass} bg-white/10 text-slate-200 border-white/10`}
+          onClick={() => {
+            const problem = scheduleProblem(schedule);
+            setProblems(problem ? [problem] : []);
+            if (!problem) run(() => api.quiz.update(quiz.id, schedule), "Schedule saved");
+          }}
+          disabled={busy || !scheduleChanged}
+        >
+          Save schedule
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">Leave a date empty to open right away or stay open indefinitely.</p>
+
+      {problems.length > 0 && (
+        <ul className="text-sm text-rose-300 list-disc pl-5">
+          {problems.map((p) => (
+            <li key={p}>{p}</li>
+          ))}
+        </ul>
+      )}
+      {err && <div className="text-sm text-rose-300">{err}</div>}
+      {msg && !err && <div className="text-sm text-emerald-300">{msg}</div>}
+
+      <div className="flex flex-wrap gap-2">
+        {status === "draft" && (
+          <button
+            className={`${buttonClass} bg-emerald-600 hover:bg-emerald-500 text-white border-emerald-500`}
+            onClick={publish}
+            disabled={busy}
+          >
+            Publish
+          </button>
+        )}
+        {status === "open" && (
+          <button
+            className={`${buttonClass} bg-amber-500/20 text-amber-200 border-amber-500/30`}
+            onClick={() =>
+              run(() => api.quiz.update(quiz.id, { closesAt: new Date().toISOString() }), "Quiz closed")
+            }
+            disabled={busy}
+          >
+            Close now
+          </button>
+        )}
+        {(status === "scheduled" || status === "open" || status === "closed") && (
+          <button
+            className={`${buttonClass} bg-white/10 text-slate-200 border-white/10`}
+            onClick={() => run(() => api.quiz.unpublish(quiz.id), "Quiz moved back to draft")}
+            disabled={busy}
+          >
+            Unpublish
+          </button>
+        )}
+        {status === "archived" ? (
+          <button
+            className={`${buttonClass} bg-white/10 text-slate-200 border-white/10`}
+            onClick={() => run(() => api.quiz.unpublish(quiz.id), "Quiz restored as a draft")}
+            disabled={busy}
+          >
+            Restore to draft
+          </button>
+        ) : (
+          <button
+            className={`${buttonClass} bg-rose-500/20 text-rose-200 border-rose-500/30`}
+            onClick={() => {
+              if (confirm(`Archive "${quiz.title}"? Students will no longer see it.`))
+                run(() => api.quiz.archive(quiz.id), "Quiz archived");
+            }}
+            disabled={busy}
+          >
+            Archive
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
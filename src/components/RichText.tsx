@@ -0,0 +1,18 @@
+import { useMemo } from "react";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
+import { renderRichText } from "../utils/richText";
+
+type Props = {
+  text: string;
+  /** For options and ordering items: renders in a span and skips block syntax. */
+  inline?: boolean;
+  className?: string;
+};
+
+/** Markdown, code and math in question content; see `renderRichText`. */
+export default function RichText({ text, inline, className }: Props) {
+  const html = useMemo(() => renderRichText(text, inline), [text, inline]);
+  const Tag = inline ? "span" : "div";
+  return <Tag className={`rich-text ${className ?? ""}`} dangerouslySetInnerHTML={{ __html: html }} />;
+}
@@ -1,5 +1,6 @@
 import { Navigate } from "react-router-dom";
 import { useAuth } from "../auth/AuthContext";
+import { roleHome } from "../auth/routeAccess";
 
 export default function RoleHome() {
   const { user, hydrating } = useAuth();
@@ -7,9 +8,5 @@ export default function RoleHome() {
   if (hydrating) return null;
   if (!user) return <Navigate to="/login" replace />;
 
-  if (user.role === "ADMIN") return <Navigate to="/admin" replace />;
-  if (user.role === "INSTRUCTOR") return <Navigate to="/instructor" replace />;
-  if (user.role === "STUDENT") return <Navigate to="/student" replace />;
-
-  return <Navigate to="/dashboard" replace />;
+  return <Navigate to={roleHome(user.role)} replace />;
 }
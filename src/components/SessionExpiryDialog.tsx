@@ -0,0 +1,94 @@
+import { type FormEvent, useEffect, useState } from "react";
+import { errorMessage } from "../api";
+
+type Props = {
+  expiresAt: number;
+  /** True when a refresh token is available and no password is needed. */
+  canRefresh: boolean;
+  onExtend: (password?: string) => Promise<void>;
+  onSignOut: () => void;
+};
+
+function fmtRemaining(ms: number) {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return m ? `${m} minute${m === 1 ? "" : "s"} ${s}s` : `${s}s`;
+}
+
+export default function SessionExpiryDialog({ expiresAt, canRefresh, onExtend, onSignOut }: Props) {
+  const [now, setNow] = useState(() => Date.now());
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+
+  useEffect(() => {
+    const t = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(t);
+  }, []);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setErr("");
+    setBusy(true);
+    try {
+      await onExtend(canRefresh ? undefined : password);
+    } catch (e) {
+      setErr(errorMessage(e, "Could not extend your session"));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <form
+        onSubmit={handleSubmit}
+        role="alertdialog"
+        aria-labelledby="session-expiry-title"
+        className="bg-[#0f172a] text-white rounded-2xl shadow-xl w-full max-w-md border border-white/10"
+      >
+        <div className="p-4 border-b border-white/10">
+          <div id="session-expiry-title" className="text-lg font-semibold">
+            Your session is about to expire
+          </div>
+        </div>
+        <div className="p-4 space-y-3">
+          <p className="text-slate-300">
+            You will be signed out in{" "}
+            <span className="font-medium text-white">{fmtRemaining(expiresAt - now)}</span>.
+            {canRefresh ? "" : " Enter your password to stay signed in."}
+          </p>
+          {!canRefresh && (
+            <input
+              type="password"
+              autoFocus
+              placeholder="Password"
+              className="w-full rounded border border-white/10 bg-white/10 px-3 py-2 text-white placeholder:text-slate-400"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          )}
+          {err && <p className="text-rose-300 text-sm">{err}</p>}
+        </div>
+        <div className="p-4 border-t border-white/10 flex items-center justify-end gap-2">
+          <button
+            type="button"
+            className="px-3 py-1.5 rounded border border-white/10 bg-white/5"
+            onClick={onSignOut}
+          >
+            Sign out
+          </button>
+          <button
+            type="submit"
+            className="px-3 py-1.5 rounded bg-sky-600 hover:bg-sky-500 text-white disabled:opacity-60"
+            disabled={busy}
+          >
+            {busy ? "Extending…" : "Stay signed in"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
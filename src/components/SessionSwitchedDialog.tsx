@@ -0,0 +1,36 @@
+type Props = {
+  user: { name: string; email: string; role: string };
+};
+
+export default function SessionSwitchedDialog({ user }: Props) {
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50">
+      <div
+        role="alertdialog"
+        aria-labelledby="session-switched-title"
+        className="bg-[#0f172a] text-white rounded-2xl shadow-xl w-full max-w-md border border-white/10"
+      >
+        <div className="p-4 border-b border-white/10">
+          <div id="session-switched-title" className="text-lg font-semibold">
+            You signed in as someone else
+          </div>
+        </div>
+        <div className="p-4 space-y-2 text-slate-300">
+          <p>
+            Another tab is now signed in as{" "}
+            <span className="font-medium text-white">{user.name || user.email}</span> ({user.role}).
+          </p>
+          <p>This page was opened under a different account and has to reload before you continue.</p>
+        </div>
+        <div className="p-4 border-t border-white/10 flex items-center justify-end">
+          <button
+            className="px-3 py-1.5 rounded bg-sky-600 hover:bg-sky-500 text-white"
+            onClick={() => window.location.reload()}
+          >
+            Reload
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useState } from "react";
+import type { Quiz, StudentAttempt } from "../api";
+import { attemptAvailability } from "../utils/attemptPolicy";
+import { quizStatus } from "../utils/quizStatus";
+import AccessCodeDialog from "./AccessCodeDialog";
+
+type Props = {
+  quiz: Quiz;
+  /** The student's attempts across all quizzes; empty when the backend can't list them. */
+  attempts: StudentAttempt[];
+  starting: boolean;
+  /**
+   * Called with the code the student typed for code-protected quizzes. Should
+   * reject when given a code that the server turned down, so the dialog can say so.
+   */
+  onStart: (accessCode?: string) => Promise<void>;
+  className?: string;
+};
+
+/** "Take Quiz" with the attempt limit and cooldown spelled out underneath. */
+export default function StartAttemptButton({ quiz, attempts, starting, onStart, className }: Props) {
+  const [askingCode, setAskingCode] = useState(false);
+  const { blocked, note } = attemptAvailability(quiz, attempts);
+  const reason = quizStatus(quiz) === "open" ? blocked : "This quiz isn't open yet";
+  const needsCode = quiz.access === "code";
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <button
+        className={className ?? "px-3 py-1 bg-sky-600 hover:bg-sky-500 text-white rounded disabled:opacity-60"}
+        onClick={() => (needsCode ? setAskingCode(true) : onStart())}
+        disabled={starting || !!reason}
+        title={reason ?? (needsCode ? "Needs an access code" : undefined)}
+      >
+        {starting ? "Starting…" : `${needsCode ? "🔒 " : ""}${quiz.mode === "practice" ? "Practice" : "Take Quiz"}`}
+      </button>
+      {(blocked || note) && <span className="text-xs text-slate-400">{blocked ?? note}</span>}
+      {askingCode && (
+        <AccessCodeDialog quizTitle={quiz.title} onSubmit={onStart} onCancel={() => setAskingCode(false)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { getQueueSnapshot, subscribeQueue, type QueueSnapshot } from "../api/answerQueue";
+
+export function useAnswerQueue(attemptId: number): QueueSnapshot {
+  const subscribe = useCallback((cb: () => void) => subscribeQueue(attemptId, cb), [attemptId]);
+  return useSyncExternalStore(subscribe, () => getQueueSnapshot(attemptId));
+}
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useState } from "react";
+import { api } from "../api";
+
+const RESYNC_MS = 60_000;
+
+export type AttemptTimerState = {
+  /** Null while loading and for untimed quizzes. */
+  remainingMs: number | null;
+  expired: boolean;
+  warning: string | null;
+};
+
+/**
+ * Counts down to the attempt's server deadline. The local clock is only
+ * trusted for ticking: the offset to server time is re-measured every minute
+ * and whenever the tab becomes visible again, so a wrong or sleeping device
+ * clock can't buy extra time or end an attempt early.
+ */
+export function useAttemptTimer(quizId: number, attemptId: number): AttemptTimerState {
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  const sync = useCallback(
+    async (signal?: AbortSignal) => {
+      if (!quizId || !attemptId) return;
+      try {
+        const sentAt = Date.now();
+        const t = await api.attempts.timer(quizId, attemptId, { signal });
+        const receivedAt = Date.now();
+        setOffset(Date.parse(t.serverTime) - (sentAt + receivedAt) / 2);
+        setDeadline(t.deadline ? Date.parse(t.deadline) : null);
+      } catch {
+        // Keep the last known deadline; an older backend without the timer
+        // route simply leaves the quiz untimed.
+      }
+    },
+    [quizId, attemptId]
+  );
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    sync(ctrl.signal);
+    const resync = window.setInterval(() => sync(ctrl.signal), RESYNC_MS);
+    function onVisible() {
+      if (document.visibilityState === "visible") sync(ctrl.signal);
+    }
+    document.addEventListener("visibilitychange", onVisible);
+    return () => {
+      ctrl.abort();
+      window.clearInterval(resync);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }, [sync]);
+
+  useEffect(() => {
+    if (deadline === null) return;
+    const tick = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(tick);
+  }, [deadline]);
+
+  const remainingMs = deadline === null ? null : Math.max(0, deadline - (now + offset));
+
+  let warning: string | null = null;
+  if (remainingMs !== null && remainingMs > 0) {
+    if (remainingMs <= 60_000) warning = "Less than 1 minute left — your answers will be submitted automatically.";
+    else if (remainingMs <= 5 * 60_000) warning = "5 minutes left.";
+  }
+
+  return { remainingMs, expired: remainingMs === 0, warning };
+}
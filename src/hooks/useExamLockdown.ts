@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
+
+// Whether an attempt has locked navigation, shared with the layout.
+let navigationLocked = false;
+const listeners = new Set<() => void>();
+
+function setNavigationLocked(locked: boolean) {
+  navigationLocked = locked;
+  listeners.forEach((l) => l());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** True while a locked-down exam is on screen; the layout disables its links. */
+export function useNavigationLocked() {
+  return useSyncExternalStore(subscribe, () => navigationLocked);
+}
+
+type Options = {
+  enabled: boolean;
+  /** Called when the student leaves fullscreen, and when they come back. */
+  onExit?: () => void;
+  onEnter?: () => void;
+};
+
+export type ExamLockdown = {
+  /** False where the browser can't go fullscreen (e.g. iPhone Safari); the rest still applies. */
+  supported: boolean;
+  fullscreen: boolean;
+  /** Must be called from a click or key press, or the browser refuses. */
+  enter: () => void;
+};
+
+/**
+ * Keeps a monitored exam in fullscreen, disables the layout's links and asks
+ * before the tab is closed or reloaded. Leaving fullscreen can't be
+ * prevented, only noticed: the page covers the questions until the student
+ * returns, and reports the exit through `onExit`.
+ */
+export function useExamLockdown({ enabled, onExit, onEnter }: Options): ExamLockdown {
+  const supported = !!document.fullscreenEnabled;
+  const [fullscreen, setFullscreen] = useState(() => !!document.fullscreenElement);
+  const callbacks = useRef({ onExit, onEnter });
+
+  useEffect(() => {
+    callbacks.current = { onExit, onEnter };
+  }, [onExit, onEnter]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    setNavigationLocked(true);
+
+    function onChange() {
+      const now = !!document.fullscreenElement;
+      setFullscreen(now);
+      (now ? callbacks.current.onEnter : callbacks.current.onExit)?.();
+    }
+    function onBeforeUnload(e: BeforeUnloadEvent) {
+      e.preventDefault();
+      // Older browsers only prompt when returnValue is set.
+      e.returnValue = "";
+    }
+
+    document.addEventListener("fullscreenchange", onChange);
+    window.addEventListener("beforeunload", onBeforeUnload);
+    return () => {
+      document.removeEventListener("fullscreenchange", onChange);
+      window.removeEventListener("beforeunload", onBeforeUnload);
+      setNavigationLocked(false);
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined);
+    };
+  }, [enabled]);
+
+  const enter = useCallback(() => {
+    if (supported && !document.fullscreenElement)
+      document.documentElement.requestFullscreen().catch(() => undefined);
+  }, [supported]);
+
+  return { supported, fullscreen, enter };
+}
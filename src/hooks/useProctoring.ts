@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef } from "react";
+import { api, isMissingRoute, type ProctorEvent, type ProctorEventType } from "../api";
+
+const FLUSH_MS = 5_000;
+
+type Options = {
+  quizId: number;
+  attemptId: number;
+  /** Only monitored quizzes, and only once the student has seen the notice. */
+  enabled: boolean;
+  /** Stamped on each event so reviewers can see where it happened. */
+  questionId?: number;
+};
+
+/**
+ * Logs tab switches, focus loss, copy/paste and right-clicks during a
+ * monitored attempt. Events are batched and sent every few seconds, and
+ * straight away when the tab is hidden since it may not come back. A failed
+ * send keeps the batch for the next round.
+ *
+ * Returns `record` for events the page notices itself.
+ */
+export function useProctoring({ quizId, attemptId, enabled, questionId }: Options) {
+  const buffer = useRef<ProctorEvent[]>([]);
+  const question = useRef(questionId);
+
+  useEffect(() => {
+    question.current = questionId;
+  }, [questionId]);
+
+  const record = useCallback(
+    (type: ProctorEventType) => {
+      if (!enabled) return;
+      buffer.current.push({ type, at: new Date().toISOString(), questionId: question.current ?? null });
+    },
+    [enabled]
+  );
+
+  useEffect(() => {
+    if (!enabled || !quizId || !attemptId) return;
+    let sending = false;
+
+    async function flush() {
+      if (sending || !buffer.current.length) return;
+      const batch = buffer.current;
+      buffer.current = [];
+      sending = true;
+      try {
+        await api.attempts.logEvents(quizId, attemptId, batch);
+      } catch (e) {
+        // A backend without the route can't store them; anything else is retried.
+        if (!isMissingRoute(e)) buffer.current = [...batch, ...buffer.current];
+      } finally {
+        sending = false;
+      }
+    }
+
+    function onVisibility() {
+      record(document.visibilityState === "hidden" ? "tab_hidden" : "tab_visible");
+      flush();
+    }
+    // Switching tabs blurs the window too; the visibility event already covers it.
+    const onBlur = () => document.visibilityState === "visible" && record("window_blur");
+    const onFocus = () => document.visibilityState === "visible" && record("window_focus");
+    const onCopy = () => record("copy");
+    const onCut = () => record("cut");
+    const onPaste = () => record("paste");
+    const onContextMenu = () => record("context_menu");
+
+    document.addEventListener("visibilitychange", onVisibility);
+    window.addEventListener("blur", onBlur);
+    window.addEventListener("focus", onFocus);
+    document.addEventListener("copy", onCopy);
+    document.addEventListener("cut", onCut);
+    document.addEventListener("paste", onPaste);
+    document.addEventListener("contextmenu", onContextMenu);
+    const timer = window.setInterval(flush, FLUSH_MS);
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibility);
+      window.removeEventListener("blur", onBlur);
+      window.removeEventListener("focus", onFocus);
+      document.removeEventListener("copy", onCopy);
+      document.removeEventListener("cut", onCut);
+      document.removeEventListener("paste", onPaste);
+      document.removeEventListener("contextmenu", onContextMenu);
+      window.clearInterval(timer);
+      flush();
+    };
+  }, [enabled, quizId, attemptId, record]);
+
+  return record;
+}
@@ -1,78 +1,17 @@
 import { useEffect, useMemo, useState } from "react";
 import PageLoader from "../components/PageLoader";
 import InlineAlert from "../components/InLineAlerts";
-
-const API = import.meta.env.VITE_API_URL ?? "http://localhost:3000";
-
-function authHeaders() {
-  const token = localStorage.getItem("token") ?? "";
-  return {
-    "Content-Type": "application/json",
-    Authorization: `Bearer ${token}`,
-  };
-}
-
-async function getStrict<T>(path: string): Promise<T> {
-  const res = await fetch(`${API}${path}`, { headers: authHeaders() });
-  if (res.status === 401) {
-    localStorage.removeItem("token");
-    localStorage.removeItem("user");
-    window.location.assign("/login");
-    throw new Error("Unauthorized");
-  }
-  if (!res.ok) {
-    let msg = `${res.status}`;
-    try {
-      const j = await res.json();
-      msg = j?.message || msg;
-    } catch {}
-    const err: any = new Error(msg);
-    err.status = res.status;
-    throw err;
-  }
-  return res.json() as Promise<T>;
-}
-
-async function sendJSON<T>(
-  path: string,
-  method: "POST" | "PUT" | "DELETE",
-  body?: unknown
-): Promise<T> {
-  const res = await fetch(`${API}${path}`, {
-    method,
-    headers: authHeaders(),
-    body: body ? JSON.stringify(body) : undefined,
-  });
-  if (res.status === 401) {
-    localStorage.removeItem("token");
-    localStorage.removeItem("user");
-    window.location.assign("/login");
-    throw new Error("Unauthorized");
-  }
-  if (!res.ok) {
-    let msg = `${res.status}`;
-    try {
-      const j = await res.json();
-      msg = j?.message || msg;
-    } catch {}
-    const err: any = new Error(msg);
-    err.status = res.status;
-    throw err;
-  }
-  return (res.status === 204 ? (null as any) : (res.json() as Promise<T>));
-}
-
-type SummaryDTO = { users: number; quizzes: number; attempts: number };
-type Quiz = {
-  id: number | string;
-  title?: string;
-  description?: string;
-  category?: string | null;
-  createdAt?: string;
-  attemptsCount?: number;
-};
-type AttemptsPerDayPoint = { date: string; attempts: number };
-type UserRow = { id: number; email: string; name?: string | null; role?: string };
+import QuizExportMenu from "../components/QuizExportMenu";
+import {
+  api,
+  errorMessage,
+  isMissingRoute,
+  isUnauthorized,
+  type AdminSummary,
+  type AttemptsPerDayPoint,
+  type Quiz,
+  type UserRow,
+} from "../api";
 
 function Card({
   children,
@@ -179,7 +118,7 @@ function LineChart({ data }: { data: AttemptsPerDayPoint[] }) {
 export default function AdminDashboard() {
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState("");
-  const [totals, setTotals] = useState<SummaryDTO>({ users: 0, quizzes: 0, attempts: 0 });
+  const [totals, setTotals] = useState<AdminSummary>({ users: 0, quizzes: 0, attempts: 0 });
   const [series, setSeries] = useState<AttemptsPerDayPoint[]>([]);
   const [recent, setRecent] = useState<Quiz[]>([]);
   const [top, setTop] = useState<Quiz[]>([]);
@@ -195,9 +134,10 @@ export default function AdminDashboard() {
   const [qQuery, setQQuery] = useState("");
   const [qPage, setQPage] = useState(1);
   const [qTotal, setQTotal] = useState(0);
+  const [exportNotice, setExportNotice] = useState<{ msg: string; type: "info" | "error" } | null>(null);
   const qPageSize = 10;
   const [quizForm, setQuizForm] = useState<{
-    id?: number | string;
+    id?: number;
     title: string;
     description: string;
     category: string;
@@ -214,26 +154,18 @@ export default function AdminDashboard() {
     setErr("");
     try {
       const [summary, recentQ, topQ, perDay] = await Promise.all([
-        getStrict<SummaryDTO>("/quiz/admin/summary"),
-        getStrict<Quiz[]>("/quiz/admin/recent-quizzes"),
-        getStrict<any[]>("/quiz/admin/top-quizzes").then((raw) =>
-          (raw ?? []).map((r) => ({
-            id: r.id ?? r.quizId ?? "—",
-            title: r.title ?? `Quiz ${r.id ?? r.quizId ?? "—"}`,
-            attemptsCount: r.attemptsCount ?? r.attempts ?? 0,
-          }))
-        ),
-        getStrict<any[]>(`/quiz/admin/attempts-per-day?days=14`).then((raw) =>
-          (raw ?? []).map((r) => ({ date: r.date ?? r.day ?? "", attempts: r.attempts ?? r.count ?? 0 }))
-        ),
+        api.admin.summary(),
+        api.admin.recentQuizzes(),
+        api.admin.topQuizzes(),
+        api.admin.attemptsPerDay(14),
       ]);
       setTotals(summary);
       setRecent(recentQ);
-      setTop(topQ as Quiz[]);
+      setTop(topQ);
       setSeries(perDay);
       setLastUpdated(new Date().toLocaleString());
-    } catch (e: any) {
-      if (e?.message !== "Unauthorized") setErr(e.message || "Failed to load admin metrics");
+    } catch (e) {
+      if (!isUnauthorized(e)) setErr(errorMessage(e, "Failed to load admin metrics"));
     } finally {
       setLoading(false);
     }
@@ -242,58 +174,49 @@ export default function AdminDashboard() {
   async function loadUsers() {
     setUsersUnavailable(false);
     try {
-      const data = await getStrict<any>(
-        `/users?query=${encodeURIComponent(userQuery)}&page=${userPage}&limit=${userPageSize}`
-      );
-      const items: UserRow[] = Array.isArray(data) ? data : data.items ?? [];
-      const total: number = Array.isArray(data) ? items.length : data.total ?? items.length;
+      const { items, total } = await api.users.list(userQuery, userPage, userPageSize);
       setUsers(items);
       setUserTotal(total);
-    } catch (e: any) {
-      if (e?.status === 404 || e?.status === 501) {
+    } catch (e) {
+      if (isMissingRoute(e)) {
         setUsersUnavailable(true);
         setUsers([]);
         setUserTotal(0);
-      } else if (e?.message !== "Unauthorized") {
-        setErr(e.message || "Failed to load users");
+      } else if (!isUnauthorized(e)) {
+        setErr(errorMessage(e, "Failed to load users"));
       }
     }
   }
   async function deleteUser(id: number) {
     if (!confirm("Delete this user? This cannot be undone.")) return;
     try {
-      await sendJSON<void>(`/users/${id}`, "DELETE");
+      await api.users.remove(id);
       await loadUsers();
       await loadOverview();
-    } catch (e: any) {
-      alert(e?.message || "Delete failed");
+    } catch (e) {
+      alert(errorMessage(e, "Delete failed"));
     }
   }
 
   async function loadQuizzes() {
     setQuizzesUnavailable(false);
     try {
-      const data = await getStrict<any>(
-        `/quiz?query=${encodeURIComponent(qQuery)}&page=${qPage}&limit=${qPageSize}`
-      );
-      const items: Quiz[] = Array.isArray(data) ? data : data.items ?? [];
-      const total: number = Array.isArray(data) ? items.length : data.total ?? items.length;
+      const { items, total } = await api.admin.quizzes(qQuery, qPage, qPageSize);
       setQrows(items);
       setQTotal(total);
-    } catch (e: any) {
-      if (e?.status === 404 || e?.status === 501) {
+    } catch (e) {
+      if (isMissingRoute(e)) {
         setQuizzesUnavailable(true);
         setQrows([]);
         setQTotal(0);
-      } else if (e?.message !== "Unauthorized") {
-      } else {
-        setErr(e.message || "Failed to load quizzes");
+      } else if (!isUnauthorized(e)) {
+        setErr(errorMessage(e, "Failed to load quizzes"));
       }
     }
   }
   async function createQuiz() {
     try {
-      await sendJSON<Quiz>("/quiz", "POST", {
+      await api.admin.createQuiz({
         title: quizForm.title,
         description: quizForm.description,
         category: quizForm.category || null,
@@ -302,8 +225,8 @@ export default function AdminDashboard() {
       setQuizForm({ title: "", description: "", category: "" });
       await loadQuizzes();
       await loadOverview();
-    } catch (e: any) {
-      alert(e?.message || "Create failed");
+    } catch (e) {
+      alert(errorMessage(e, "Create failed"));
     }
   }
   async function startEdit(q: Quiz) {
@@ -317,13 +240,13 @@ export default function AdminDashboard() {
   }
   async function saveEdit() {
     try {
-      await sendJSON<Quiz>(`/quiz/${quizForm.id}`, "PUT", {
+      await api.admin.updateQuiz(quizForm.id!, {
         title: quizForm.title,
         description: quizForm.description,
         category: quizForm.category || null,
       });
-    } catch (e: any) {
-      alert(e?.message || "Update failed");
+    } catch (e) {
+      alert(errorMessage(e, "Update failed"));
       return;
     }
     setShowQuizModal(null);
@@ -331,14 +254,14 @@ export default function AdminDashboard() {
     await loadQuizzes();
     await loadOverview();
   }
-  async function deleteQuiz(id: number | string) {
+  async function deleteQuiz(id: number) {
     if (!confirm("Delete this quiz and its questions/attempts?")) return;
     try {
-      await sendJSON<void>(`/quiz/${id}`, "DELETE");
+      await api.admin.deleteQuiz(id);
       await loadQuizzes();
       await loadOverview();
-    } catch (e: any) {
-      alert(e?.message || "Delete failed");
+    } catch (e) {
+      alert(errorMessage(e, "Delete failed"));
     }
   }
 
@@ -599,6 +522,11 @@ export default function AdminDashboard() {
               }
             />
             <div className="p-4">
+              {exportNotice && (
+                <div className="mb-3">
+                  <InlineAlert type={exportNotice.type}>{exportNotice.msg}</InlineAlert>
+                </div>
+              )}
               {quizzesUnavailable ? (
                 <div className="text-slate-300">
                   This backend doesn’t expose admin quiz endpoints yet. Add:
@@ -648,6 +576,11 @@ export default function AdminDashboard() {
                               >
                                 Delete
                               </button>
+                              <QuizExportMenu
+                                quiz={q}
+                                className="px-2 py-1 rounded bg-slate-700 text-white text-xs"
+                                onMessage={(msg, type) => setExportNotice({ msg, type })}
+                              />
                             </td>
                           </tr>
                         ))}
@@ -1,46 +1,34 @@
 import { useEffect, useState, useCallback, useRef } from "react";
-import { Link, useNavigate, useParams } from "react-router-dom";
+import { Link, useParams } from "react-router-dom";
 import PageLoader from "../components/PageLoader";
 import InlineAlert from "../components/InLineAlerts";
-
-const API = import.meta.env.VITE_API_URL ?? "http://localhost:3000";
-
-function authHeaders() {
-  const token = localStorage.getItem("token") ?? "";
-  return {
-    "Content-Type": "application/json",
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-  };
-}
-
-type AttemptAnswer = {
-  id: number;
-  question?: {
-    id: number;
-    text: string;
-    options?: string[];
-  };
-  selectedOptionIndex: number;
-  isCorrect: boolean;
-};
-
-type AttemptDetail = {
-  id: number;
-  quizId: number;
-  studentId: number;
-  student?: { id: number; email?: string; name?: string };
-  score: number;
-  total: number;
-  answers: AttemptAnswer[];
-  startedAt?: string;
-  submittedAt?: string;
+import AnswerReview from "../components/AnswerReview";
+import AnswerExplanation from "../components/AnswerExplanation";
+import ProctorTimeline from "../components/ProctorTimeline";
+import QuestionMedia from "../components/QuestionMedia";
+import RichText from "../components/RichText";
+import { api, errorMessage, isAbortError, isMissingRoute, type AttemptDetail, type ProctorEvent } from "../api";
+import { elapsedBetween, fmtDuration } from "../utils/time";
+import {
+  DEFAULT_PASS_MARK,
+  answerVerdict,
+  fmtAnswerPoints,
+  fmtPoints,
+  isPassing,
+  scorePercent,
+} from "../utils/scoring";
+
+const VERDICT_STYLES = {
+  correct: "bg-emerald-100 text-emerald-700",
+  partial: "bg-amber-100 text-amber-700",
+  wrong: "bg-red-100 text-red-700",
 };
+const VERDICT_LABELS = { correct: "Correct", partial: "Partly correct", wrong: "Wrong" };
 
 export default function AttemptDetailPage() {
   const { quizId, attemptId } = useParams();
-  const nav = useNavigate();
-
   const [data, setData] = useState<AttemptDetail | null>(null);
+  const [events, setEvents] = useState<ProctorEvent[]>([]);
   const [err, setErr] = useState("");
   const [loading, setLoading] = useState(true);
 
@@ -61,37 +49,27 @@ export default function AttemptDetailPage() {
     abortRef.current = ctrl;
 
     try {
-      const res = await fetch(
-        `${API}/quiz/${quizId}/attempts/${attemptId}/detail`,
-        { headers: authHeaders(), signal: ctrl.signal }
-      );
-
-      if (!res.ok) {
-        let message = `HTTP ${res.status}`;
-        try {
-          const j = await res.json();
-          message = j?.message ?? message;
-        } catch {
-          const t = await res.text().catch(() => "");
-          if (t) message = t;
-        }
-        if (res.status === 401) {
-          nav("/login", { replace: true });
-        }
-        throw new Error(message);
-      }
-
-      const d: AttemptDetail = await res.json();
+      // Only monitored attempts have events; without the route the answers still show.
+      const [d, ev] = await Promise.all([
+        api.attempts.detail(Number(quizId), Number(attemptId), {
+          signal: ctrl.signal,
+        }),
+        api.attempts.events(Number(quizId), Number(attemptId), { signal: ctrl.signal }).catch((e) => {
+          if (isMissingRoute(e)) return [];
+          throw e;
+        }),
+      ]);
       setData(d);
-    } catch (e: any) {
-      if (e?.name !== "AbortError") {
-        setErr(e?.message ?? "Load failed");
+      setEvents(ev);
+    } catch (e) {
+      if (!isAbortError(e)) {
+        setErr(errorMessage(e, "Load failed"));
         setData(null);
       }
     } finally {
       setLoading(false);
     }
-  }, [quizId, attemptId, nav]);
+  }, [quizId, attemptId]);
 
   useEffect(() => {
     load();
@@ -101,13 +79,15 @@ export default function AttemptDetailPage() {
   const fmt = (s?: string) =>
     s ? new Date(s).toLocaleString() : "—";
 
+  const timeTaken = elapsedBetween(data?.startedAt, data?.submittedAt);
+
   const studentLabel =
     data?.student?.name?.trim() ||
     data?.student?.email ||
     `#${data?.studentId}`;
 
   return (
-    <div className="max-w-[900px] mx-auto px-4 py-6 space-y-4">
+    <div className={`${events.length ? "max-w-[1140px]" : "max-w-[900px]"} mx-auto px-4 py-6 space-y-4`}>
       <PageLoader show={loading} />
 
       <div className="flex items-center justify-between">
@@ -147,79 +127,76 @@ export default function AttemptDetailPage() {
                 <span className="text-slate-500">Submitted: </span>
                 {fmt(data.submittedAt)}
               </div>
+              <div className="text-sm">
+                <span className="text-slate-500">Time taken: </span>
+                {timeTaken !== null ? fmtDuration(timeTaken) : "—"}
+              </div>
             </div>
 
             <div className="flex md:items-center md:justify-end">
               <div className="inline-flex items-center gap-2">
                 <span
                   className={`px-3 py-1.5 rounded-lg text-sm font-medium ${
-                    data.score / Math.max(1, data.total) >= 0.5
+                    isPassing(data)
                       ? "bg-emerald-100 text-emerald-700"
                       : "bg-red-100 text-red-700"
                   }`}
+                  title={`Pass mark ${data.passMark ?? DEFAULT_PASS_MARK}%`}
                 >
-                  Score: {data.score} / {data.total}
+                  Score: {fmtPoints(data.score)} / {fmtPoints(data.total)} points
                 </span>
                 <span className="px-3 py-1.5 rounded-lg text-sm bg-slate-100 text-slate-700">
-                  {Math.round((data.score / Math.max(1, data.total)) * 100)}%
+                  {scorePercent(data.score, data.total)}%
                 </span>
               </div>
             </div>
           </div>
-          <section className="space-y-3">
-            <h3 className="text-lg font-semibold">Answers</h3>
-
-            {data.answers?.length ? (
-              <div className="overflow-hidden rounded-xl border border-slate-200 bg-white">
-                <ul className="divide-y divide-slate-200">
-                  {data.answers.map((a) => {
-                    const q = a.question;
-                    const selectedText =
-                      q?.options && q.options[a.selectedOptionIndex];
-
-                    return (
-                      <li key={a.id} className="p-4">
-                        <div className="flex items-start justify-between gap-3">
-                          <div className="text-sm">
-                            <div className="font-medium">
-                              Q{q?.id ? `#${q.id}` : ""}{" "}
-                              {q?.text ? (
-                                <span className="text-slate-700 font-normal">
-                                  — {q.text}
-                                </span>
-                              ) : null}
-                            </div>
-                            <div className="text-slate-600 mt-1">
-                              Selected:{" "}
-                              <code className="text-slate-800">
-                                {a.selectedOptionIndex}
-                              </code>
-                              {selectedText ? (
-                                <span className="ml-2">({selectedText})</span>
-                              ) : null}
+          <div className={events.length ? "grid gap-4 lg:grid-cols-[1fr_16rem] items-start" : undefined}>
+            <section className="space-y-3">
+              <h3 className="text-lg font-semibold">Answers</h3>
+
+              {data.answers?.length ? (
+                <div className="overflow-hidden rounded-xl border border-slate-200 bg-white">
+                  <ul className="divide-y divide-slate-200">
+                    {data.answers.map((a) => {
+                      const q = a.question;
+                      const verdict = answerVerdict(a);
+
+                      return (
+                        <li key={a.id} className="p-4">
+                          <div className="flex items-start justify-between gap-3">
+                            <div className="text-sm">
+                              <div className="font-medium">Q{q?.id ? `#${q.id}` : ""}</div>
+                              {q?.text ? <RichText text={q.text} className="text-slate-700 mt-1" /> : null}
+                              <QuestionMedia attachments={q?.attachments} />
+                              <div className="text-slate-600 mt-1">
+                                <AnswerReview question={q} answer={a} />
+                                <AnswerExplanation question={q} answer={a} className="mt-2" />
+                              </div>
                             </div>
-                          </div>
 
-                          <div
-                            className={`shrink-0 inline-flex items-center px-2.5 py-1 rounded-md text-sm ${
-                              a.isCorrect
-                                ? "bg-emerald-100 text-emerald-700"
-                                : "bg-red-100 text-red-700"
-                            }`}
-                            title={a.isCorrect ? "Correct" : "Incorrect"}
-                          >
-                            {a.isCorrect ? "Correct" : "Wrong"}
+                            <div
+                              className={`shrink-0 inline-flex items-center px-2.5 py-1 rounded-md text-sm ${VERDICT_STYLES[verdict]}`}
+                              title={VERDICT_LABELS[verdict]}
+                            >
+                              {VERDICT_LABELS[verdict]} · {fmtAnswerPoints(a)}
+                            </div>
                           </div>
-                        </div>
-                      </li>
-                    );
-                  })}
-                </ul>
-              </div>
-            ) : (
-              <div className="text-slate-600 text-sm">No answers found.</div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ) : (
+                <div className="text-slate-600 text-sm">No answers found.</div>
+              )}
+            </section>
+            {events.length > 0 && (
+              <aside className="lg:sticky lg:top-4">
+                <ProctorTimeline events={events} startedAt={data.startedAt} />
+              </aside>
             )}
-          </section>
+          </div>
 
           <div className="pt-2">
             <Link className="text-sky-600 hover:underline" to={`/quiz/${quizId}/attempts`}>
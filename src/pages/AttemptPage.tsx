@@ -2,37 +2,41 @@ import { useEffect, useRef, useState, useCallback } from "react";
 import { Link, useNavigate, useParams } from "react-router-dom";
 import PageLoader from "../components/PageLoader";
 import InlineAlert from "../components/InLineAlerts";
+import QuizCountdown from "../components/QuizCountdown";
+import AnswerSyncStatus from "../components/AnswerSyncStatus";
+import { useAttemptTimer } from "../hooks/useAttemptTimer";
+import { useAnswerQueue } from "../hooks/useAnswerQueue";
+import { useExamLockdown } from "../hooks/useExamLockdown";
+import { useProctoring } from "../hooks/useProctoring";
+import { enqueueAnswer, flushAnswers, listQueued } from "../api/answerQueue";
+import AnswerCheck from "../components/AnswerCheck";
+import FullscreenGate from "../components/FullscreenGate";
+import MonitoringNotice from "../components/MonitoringNotice";
+import QuestionAnswerInput from "../components/QuestionAnswerInput";
+import QuestionMedia from "../components/QuestionMedia";
+import RichText from "../components/RichText";
+import {
+  api,
+  errorMessage,
+  isAbortError,
+  isMissingRoute,
+  isUnauthorized,
+  type AnswerFeedback,
+  type AnswerValue,
+  type Question,
+} from "../api";
+import { isAutoChecked } from "../utils/feedback";
+import { acknowledgeMonitoring, monitoringAcknowledged } from "../utils/proctoring";
+import { isAnswered } from "../utils/questions";
+import { orderQuestions, presentQuestion, type ShuffleSettings } from "../utils/shuffle";
 
-type Question = {
-  id: number;
-  text: string;
-  options: string[];
-  correctOptionIndex: number;
-};
+/** Wait before submitting an expired attempt again after a failed try. */
+const AUTO_SUBMIT_RETRY_MS = 5_000;
 
-const API = import.meta.env.VITE_API_URL || "http://localhost:3000";
-
-function authHeaders() {
-  const token = localStorage.getItem("token") ?? "";
-  return { "Content-Type": "application/json", Authorization: `Bearer ${token}` };
-}
-
-function logoutAndGoLogin(nav: ReturnType<typeof useNavigate>) {
-  localStorage.removeItem("token");
-  localStorage.removeItem("user");
-  nav("/login", { replace: true });
-}
-
-async function parseError(res: Response) {
-  let msg = `HTTP ${res.status}`;
-  try {
-    const j = await res.json();
-    msg = j?.message ?? msg;
-  } catch {
-    const t = await res.text().catch(() => "");
-    if (t) msg = t;
-  }
-  return msg;
+function without<T>(map: Record<number, T>, id: number) {
+  const next = { ...map };
+  delete next[id];
+  return next;
 }
 
 export default function AttemptPage() {
@@ -41,10 +45,68 @@ export default function AttemptPage() {
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
   const [err, setErr] = useState<string>("");
+  // Saving or checking an answer failed; unlike `err` the question stays on screen.
+  const [saveErr, setSaveErr] = useState("");
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [shuffle, setShuffle] = useState<ShuffleSettings>({});
   const [idx, setIdx] = useState(0);
-  const [selected, setSelected] = useState<number | null>(null);
+  const [selected, setSelected] = useState<AnswerValue | null>(null);
+  // Saved answers by question id, so moving between questions shows what was given.
+  const [answers, setAnswers] = useState<Record<number, AnswerValue>>({});
+  const [instantFeedback, setInstantFeedback] = useState(false);
+  const [practice, setPractice] = useState(false);
+  // Checked answers by question id. They are final, except that practice
+  // allows another try; until then the question waits for "Next".
+  const [checks, setChecks] = useState<Record<number, AnswerFeedback>>({});
+  const [monitored, setMonitored] = useState(false);
+  const [acknowledged, setAcknowledged] = useState(() => monitoringAcknowledged(Number(attemptId)));
+  const [fullscreenExits, setFullscreenExits] = useState(0);
+  // Failed automatic submits so far; each one schedules another try.
+  const [autoSubmitFailures, setAutoSubmitFailures] = useState(0);
+  const autoSubmitting = useRef(false);
   const abortRef = useRef<AbortController | null>(null);
+  const check = (questions[idx] && checks[questions[idx].id]) ?? null;
+  const timer = useAttemptTimer(Number(quizId), Number(attemptId));
+  const queue = useAnswerQueue(Number(attemptId));
+  const record = useProctoring({
+    quizId: Number(quizId),
+    attemptId: Number(attemptId),
+    enabled: monitored && acknowledged,
+    questionId: questions[idx]?.id,
+  });
+  const lockdown = useExamLockdown({
+    enabled: monitored && acknowledged,
+    onExit: () => {
+      setFullscreenExits((n) => n + 1);
+      record("fullscreen_exit");
+    },
+    onEnter: () => record("fullscreen_enter"),
+  });
+
+  // Time's up: save the answer on screen, get everything to the server and only
+  // then show the result, trying again until it goes through.
+  useEffect(() => {
+    if (!timer.expired || loading || autoSubmitting.current) return;
+    const t = window.setTimeout(
+      async () => {
+        autoSubmitting.current = true;
+        try {
+          const q = questions[idx];
+          if (q && !check && isAnswered(selected))
+            await enqueueAnswer(Number(quizId), Number(attemptId), q.id, selected);
+          await flushAnswers(Number(attemptId));
+          nav(`/quiz/${quizId}/attempts/${attemptId}/result`, { replace: true });
+        } catch {
+          setAutoSubmitFailures((n) => n + 1);
+        } finally {
+          autoSubmitting.current = false;
+        }
+      },
+      autoSubmitFailures ? AUTO_SUBMIT_RETRY_MS : 0
+    );
+    return () => window.clearTimeout(t);
+  }, [timer.expired, loading, autoSubmitFailures, questions, idx, check, selected, nav, quizId, attemptId]);
+
   const load = useCallback(async () => {
     setErr("");
     setLoading(true);
@@ -53,75 +115,113 @@ export default function AttemptPage() {
     abortRef.current = ctrl;
     
     try {
-      const res = await fetch(`${API}/quiz/${quizId}/questions`, {
-        headers: authHeaders(),
-        signal: ctrl.signal,
-      });
-
-      if (res.status === 401) {
-        logoutAndGoLogin(nav);
+      const [authored, quiz, progress, queued] = await Promise.all([
+        api.attempts.questions(Number(quizId), Number(attemptId), { signal: ctrl.signal }),
+        api.quiz.get(Number(quizId), { signal: ctrl.signal }).catch((e) => {
+          if (isMissingRoute(e)) return null;
+          throw e;
+        }),
+        api.attempts.progress(Number(quizId), Number(attemptId), { signal: ctrl.signal }).catch((e) => {
+          if (isMissingRoute(e)) return null;
+          throw e;
+        }),
+        listQueued(Number(attemptId)),
+      ]);
+      if (progress?.submittedAt) {
+        nav(`/quiz/${quizId}/attempts/${attemptId}/result`, { replace: true });
         return;
       }
-      if (!res.ok) throw new Error(await parseError(res));
 
-      const data: Question[] = await res.json();
+      const settings: ShuffleSettings = quiz ?? {};
+      const data = orderQuestions(authored, Number(attemptId), settings);
+      const saved = new Map<number, AnswerValue>(progress?.answers.map((a) => [a.questionId, a]));
+      // Answers still in the local queue are newer than what the server holds.
+      queued.forEach((a) => saved.set(a.questionId, a.answer));
+      const last = data.findIndex((q) => q.id === progress?.lastQuestionId);
+      const start = last >= 0 ? last : Math.max(0, data.findIndex((q) => !isAnswered(saved.get(q.id))));
+
       setQuestions(data);
-      setIdx(0);
-      setSelected(null);
-    } catch (e: any) {
-      if (e?.name !== "AbortError") setErr(e.message || "Failed to load questions");
+      setShuffle(settings);
+      setInstantFeedback(quiz?.feedbackTiming === "immediate" || quiz?.mode === "practice");
+      setPractice(quiz?.mode === "practice");
+      setMonitored(!!quiz?.monitored);
+      setIdx(start);
+      setAnswers(Object.fromEntries(saved));
+      setSelected(saved.get(data[start]?.id) ?? null);
+    } catch (e) {
+      if (!isAbortError(e) && !isUnauthorized(e)) setErr(errorMessage(e, "Failed to load questions"));
     } finally {
       setLoading(false);
     }
-  }, [quizId, nav]);
+  }, [quizId, attemptId, nav]);
 
   useEffect(() => {
     load();
     return () => abortRef.current?.abort();
   }, [load]);
 
-  async function submitCurrent() {
-    if (selected === null || sending) return;
+  useEffect(() => {
+    const q = questions[idx];
+    if (q) api.attempts.savePosition(Number(quizId), Number(attemptId), q.id).catch(() => undefined);
+  }, [questions, idx, quizId, attemptId]);
+
+  /** Moves to another question and brings back the answer saved for it. */
+  function goTo(next: number) {
+    if (next < 0 || next >= questions.length) return;
+    setIdx(next);
+    setSelected(answers[questions[next].id] ?? null);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  async function advance() {
+    if (idx + 1 < questions.length) return goTo(idx + 1);
+    // The result is graded from what the server holds, so nothing may still be queued.
+    await flushAnswers(Number(attemptId));
+    nav(`/quiz/${quizId}/attempts/${attemptId}/result`);
+  }
+
+  async function submitCurrent(answer = selected) {
+    if (sending || (!check && !isAnswered(answer))) return;
     setSending(true);
-    setErr("");
+    setSaveErr("");
     try {
+      if (check || !answer) return await advance();
       const q = questions[idx];
-      const res = await fetch(`${API}/quiz/${quizId}/attempts/${attemptId}/answers`, {
-        method: "POST",
-        headers: authHeaders(),
-        body: JSON.stringify({ questionId: q.id, selectedOptionIndex: selected }),
-      });
-
-      if (res.status === 401) {
-        logoutAndGoLogin(nav);
-        return;
-      }
-      if (!res.ok) throw new Error(await parseError(res));
-
-      if (idx + 1 < questions.length) {
-        setIdx((i) => i + 1);
-        setSelected(null);
-        window.scrollTo({ top: 0, behavior: "smooth" });
-      } else {
-        nav(`/quiz/${quizId}/attempts/${attemptId}/result`);
+      // Queued rather than posted, so a dropped connection doesn't lose it.
+      await enqueueAnswer(Number(quizId), Number(attemptId), q.id, answer);
+      setAnswers((map) => ({ ...map, [q.id]: answer }));
+      if (!instantFeedback) return await advance();
+
+      // Feedback is worked out on the server, so the answer has to be there first.
+      await flushAnswers(Number(attemptId));
+      try {
+        const feedback = await api.attempts.feedback(Number(quizId), Number(attemptId), q.id);
+        setChecks((map) => ({ ...map, [q.id]: feedback }));
+      } catch (e) {
+        // The answer is saved either way; without feedback the attempt just carries on.
+        if (!isMissingRoute(e)) throw e;
+        await advance();
       }
-    } catch (e: any) {
-      setErr(e.message || "Submit failed");
+    } catch (e) {
+      if (!isUnauthorized(e)) setSaveErr(errorMessage(e, "Submit failed"));
     } finally {
       setSending(false);
     }
   }
 
+  // Re-registered every render so Enter submits the answer currently selected.
   useEffect(() => {
     function onKey(e: KeyboardEvent) {
-      if (sending) return;
-      if (e.key === "ArrowLeft" && idx > 0) setIdx((i) => i - 1);
-      if (e.key === "ArrowRight" && idx < questions.length - 1) setIdx((i) => i + 1);
+      // Arrows move the caret and Enter confirms inside text and numeric answers.
+      if (e.target instanceof HTMLElement && e.target.closest("input, textarea, select")) return;
+      if (sending || timer.expired) return;
+      if (e.key === "ArrowLeft") goTo(idx - 1);
+      if (e.key === "ArrowRight") goTo(idx + 1);
       if (e.key === "Enter") submitCurrent();
     }
     window.addEventListener("keydown", onKey);
     return () => window.removeEventListener("keydown", onKey);
-  }, [idx, questions.length, sending]);
+  });
 
   if (loading) return <PageLoader show={true} /> as any;
 
@@ -149,58 +249,100 @@ export default function AttemptPage() {
       </div>
     );
 
+  if (monitored && !acknowledged)
+    return (
+      <div className="min-h-screen bg-[#0b1220] text-white px-4 py-10">
+        <MonitoringNotice
+          onAccept={() => {
+            acknowledgeMonitoring(Number(attemptId));
+            setAcknowledged(true);
+            lockdown.enter();
+          }}
+        />
+      </div>
+    );
+
   const q = questions[idx];
   const total = questions.length;
+  // `selected` stays in authored indexes; only the rendered options are shuffled.
+  const shown = presentQuestion(q, Number(attemptId), shuffle);
 
   return (
     <div className="min-h-screen bg-[#0b1220] text-white px-4 py-6">
       <PageLoader show={sending} />
+      {monitored && lockdown.supported && !lockdown.fullscreen && (
+        <FullscreenGate left={fullscreenExits > 0} onReturn={lockdown.enter} />
+      )}
       <div className="max-w-3xl mx-auto space-y-6">
         <header>
-          <h1 className="text-xl font-semibold">
-            Question {idx + 1} / {total}
-          </h1>
+          <div className="flex items-center justify-between">
+            <h1 className="text-xl font-semibold">
+              Question {idx + 1} / {total}
+            </h1>
+            <div className="flex items-center gap-2">
+              <AnswerSyncStatus queue={queue} />
+              {timer.remainingMs !== null && <QuizCountdown remainingMs={timer.remainingMs} />}
+            </div>
+          </div>
           <div className="w-full h-2 bg-white/10 rounded-full mt-2">
             <div
               className="h-2 bg-sky-500 rounded-full transition-all"
               style={{
-                width: `${Math.round(
-                  ((idx + (selected !== null ? 1 : 0)) / total) * 100
-                )}%`,
+                width: `${Math.round((questions.filter((x) => isAnswered(answers[x.id])).length / total) * 100)}%`,
               }}
             />
           </div>
         </header>
 
+        {timer.warning && <InlineAlert type="warning">{timer.warning}</InlineAlert>}
+        {timer.expired && (
+          <InlineAlert type={autoSubmitFailures ? "warning" : "info"}>
+            {autoSubmitFailures
+              ? `Time's up, but submitting your attempt failed. Retrying every ${AUTO_SUBMIT_RETRY_MS / 1000} seconds…`
+              : "Time's up — submitting your attempt…"}
+          </InlineAlert>
+        )}
+        {queue.error && <InlineAlert type="error">{queue.error}</InlineAlert>}
+        {saveErr && <InlineAlert type="error">{saveErr}</InlineAlert>}
+
         <section className="p-4 rounded-xl border border-white/10 bg-white/5">
-          <p className="text-lg font-medium mb-4">{q.text}</p>
-
-          <div className="space-y-3">
-            {q.options.map((opt, i) => (
-              <button
-                key={i}
-                onClick={() => setSelected(i)}
-                className={`w-full text-left px-4 py-3 rounded-lg border transition ${
-                  selected === i
-                    ? "bg-sky-600 border-sky-500 text-white"
-                    : "bg-white/5 border-white/10 hover:bg-white/10"
-                }`}
-              >
-                {opt}
-              </button>
-            ))}
-          </div>
+          <RichText text={q.text} className="text-lg font-medium mb-4" />
+          <QuestionMedia attachments={q.attachments} />
+
+          <QuestionAnswerInput
+            key={q.id}
+            question={shown.question}
+            value={shown.toDisplay(selected ?? undefined)}
+            onChange={(v) => {
+              const answer = v && shown.toCanonical(v);
+              setSelected(answer);
+              if (practice && answer && isAutoChecked(q)) submitCurrent(answer);
+            }}
+            disabled={sending || !!check || timer.expired}
+          />
+          {check && selected && (
+            <AnswerCheck
+              key={q.id}
+              question={q}
+              shown={shown}
+              answer={selected}
+              result={check}
+              onRetry={
+                practice
+                  ? () => {
+                      setChecks((map) => without(map, q.id));
+                      setAnswers((map) => without(map, q.id));
+                      setSelected(null);
+                    }
+                  : undefined
+              }
+            />
+          )}
         </section>
 
         <div className="flex justify-between items-center">
           <button
-            onClick={() => {
-              if (idx > 0) {
-                setIdx((i) => i - 1);
-                setSelected(null);
-                window.scrollTo({ top: 0, behavior: "smooth" });
-              }
-            }}
+            onClick={() => goTo(idx - 1)}
             disabled={idx === 0 || sending}
             className="px-4 py-2 rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-50"
           >
@@ -208,19 +350,29 @@ export default function AttemptPage() {
           </button>
 
           <button
-            onClick={submitCurrent}
-            disabled={selected === null || sending}
+            onClick={() => submitCurrent()}
+            disabled={!isAnswered(selected) || sending || timer.expired}
             className="px-4 py-2 rounded-lg bg-sky-600 hover:bg-sky-500 text-white disabled:opacity-50"
           >
-            {idx + 1 === total ? "Finish" : "Submit & Next →"}
+            {check
+              ? idx + 1 === total
+                ? "Finish"
+                : "Next →"
+              : instantFeedback
+                ? "Check answer"
+                : idx + 1 === total
+                  ? "Finish"
+                  : "Submit & Next →"}
           </button>
         </div>
 
-        <div>
-          <Link className="text-sky-400 hover:underline" to="/dashboard">
-            ← Back to dashboard
-          </Link>
-        </div>
+        {!monitored && (
+          <div>
+            <Link className="text-sky-400 hover:underline" to="/dashboard">
+              ← Back to dashboard
+            </Link>
+          </div>
+        )}
       </div>
     </div>
   );
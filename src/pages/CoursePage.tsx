@@ -0,0 +1,259 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import PageLoader from "../components/PageLoader";
+import InlineAlert from "../components/InLineAlerts";
+import CourseGrades from "../components/CourseGrades";
+import CourseRoster from "../components/CourseRoster";
+import QuizAvailability from "../components/QuizAvailability";
+import StartAttemptButton from "../components/StartAttemptButton";
+import {
+  api,
+  errorMessage,
+  isAbortError,
+  isMissingRoute,
+  isUnauthorized,
+  type Course,
+  type CourseMember,
+  type Quiz,
+  type StudentAttempt,
+} from "../api";
+import { courseName, courseRoleLabel, isCourseStaff } from "../utils/courses";
+import { isListed } from "../utils/quizStatus";
+
+type Tab = "quizzes" | "roster" | "grades";
+
+const TABS: { value: Tab; label: string }[] = [
+  { value: "quizzes", label: "Quizzes" },
+  { value: "roster", label: "Roster" },
+  { value: "grades", label: "Grades" },
+];
+
+export default function CoursePage() {
+  const { courseId } = useParams();
+  const nav = useNavigate();
+  const [params, setParams] = useSearchParams();
+  const [course, setCourse] = useState<Course | null>(null);
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [members, setMembers] = useState<CourseMember[]>([]);
+  const [attempts, setAttempts] = useState<StudentAttempt[]>([]);
+  /** The instructor's quizzes outside this course, offered for adding to it. */
+  const [ownQuizzes, setOwnQuizzes] = useState<Quiz[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [taking, setTaking] = useState<number | null>(null);
+  const [msg, setMsg] = useState("");
+  const [err, setErr] = useState("");
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  const load = useCallback(async () => {
+    const id = Number(courseId);
+    if (!Number.isInteger(id)) {
+      setErr("Invalid URL: courseId is missing.");
+      setLoading(false);
+      return;
+    }
+
+    setErr("");
+    setLoading(true);
+    abortRef.current?.abort();
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    const o = { signal: ctrl.signal };
+
+    try {
+      const c = await api.courses.get(id, o);
+      const staff = isCourseStaff(c.role);
+      // Students only need the quizzes and their own attempts; the roster is for staff.
+      const [qs, people, mine, own] = await Promise.all([
+        api.courses.quizzes(id, o),
+        staff ? api.courses.members(id, o) : Promise.resolve([]),
+        staff
+          ? Promise.resolve([])
+          : api.attempts.mine(o).catch((e) => {
+              if (isMissingRoute(e)) return [];
+              throw e;
+            }),
+        c.role === "instructor" ? api.quiz.all(o) : Promise.resolve([]),
+      ]);
+      setCourse(c);
+      setQuizzes(qs);
+      setMembers(people);
+      setAttempts(mine);
+      setOwnQuizzes(own);
+    } catch (e) {
+      if (!isAbortError(e) && !isUnauthorized(e)) setErr(errorMessage(e, "Failed to load the course"));
+    } finally {
+      if (abortRef.current === ctrl) setLoading(false);
+    }
+  }, [courseId]);
+
+  useEffect(() => {
+    load();
+    return () => abortRef.current?.abort();
+  }, [load]);
+
+  async function startAttempt(quizId: number, accessCode?: string) {
+    setErr("");
+    try {
+      setTaking(quizId);
+      const attempt = await api.attempts.start(quizId, accessCode);
+      nav(`/quiz/${quizId}/attempts/${attempt.id}`);
+    } catch (e) {
+      // A rejected code is shown in the code dialog instead.
+      if (accessCode !== undefined && !isUnauthorized(e)) throw e;
+      if (!isUnauthorized(e)) setErr(errorMessage(e, "Could not start attempt"));
+    } finally {
+      setTaking(null);
+    }
+  }
+
+  async function moveQuiz(quiz: Quiz, target: number | null) {
+    setErr("");
+    setMsg("");
+    try {
+      const updated = await api.quiz.update(quiz.id, { courseId: target });
+      setQuizzes((prev) => (target ? [...prev, updated] : prev.filter((q) => q.id !== quiz.id)));
+      setOwnQuizzes((prev) => prev.map((q) => (q.id === quiz.id ? updated : q)));
+      setMsg(target ? `Added "${quiz.title}"` : `Removed "${quiz.title}" from the course`);
+    } catch (e) {
+      if (!isUnauthorized(e)) setErr(errorMessage(e, "Update failed"));
+    }
+  }
+
+  const staff = isCourseStaff(course?.role);
+  const requested = params.get("tab") as Tab | null;
+  const tab: Tab = staff && requested && TABS.some((t) => t.value === requested) ? requested : "quizzes";
+  const listed = staff ? quizzes : quizzes.filter((q) => isListed(q));
+  const addable = ownQuizzes.filter((q) => !quizzes.some((x) => x.id === q.id) && q.status !== "archived");
+
+  return (
+    <div className="min-h-screen bg-[#0b1220] text-white">
+      <PageLoader show={loading || taking !== null} />
+      <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        <header>
+          <Link to="/courses" className="text-sm text-sky-300 hover:underline">
+            ← All courses
+          </Link>
+          {course && (
+            <>
+              <h1 className="mt-2 text-2xl font-semibold">
+                {courseName(course)}
+                {course.role && (
+                  <span className="ml-2 align-middle px-2 py-0.5 text-xs rounded bg-white/10 text-slate-300">
+                    {courseRoleLabel(course.role)}
+                  </span>
+                )}
+              </h1>
+              {course.description && <p className="text-slate-400">{course.description}</p>}
+            </>
+          )}
+        </header>
+
+        {err && (
+          <InlineAlert type="error" onRetry={load}>
+            {err}
+          </InlineAlert>
+        )}
+        {msg && !err && (
+          <div className="p-3 rounded bg-emerald-500/15 text-emerald-200 border border-emerald-500/30">{msg}</div>
+        )}
+
+        {course && staff && (
+          <nav className="flex gap-1 border-b border-white/10" role="tablist">
+            {TABS.map((t) => (
+              <button
+                key={t.value}
+                role="tab"
+                aria-selected={tab === t.value}
+                className={`px-3 py-2 text-sm -mb-px border-b-2 ${
+                  tab === t.value ? "border-sky-400 text-white" : "border-transparent text-slate-400 hover:text-white"
+                }`}
+                onClick={() => setParams(t.value === "quizzes" ? {} : { tab: t.value }, { replace: true })}
+              >
+                {t.label}
+              </button>
+            ))}
+          </nav>
+        )}
+
+        {course && tab === "quizzes" && (
+          <section className="space-y-3">
+            {course.role === "instructor" && addable.length > 0 && (
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                Add a quiz
+                <select
+                  className="px-2 py-1 text-sm rounded border border-white/10 bg-white/10 text-white"
+                  value=""
+                  onChange={(e) => {
+                    const quiz = addable.find((q) => q.id === Number(e.target.value));
+                    if (quiz) moveQuiz(quiz, course.id);
+                  }}
+                >
+                  <option value="" className="bg-[#0f172a]">
+                    Choose one of your quizzes…
+                  </option>
+                  {addable.map((q) => (
+                    <option key={q.id} value={q.id} className="bg-[#0f172a]">
+                      {q.title}
+                      {q.courseId ? " (moves from another course)" : ""}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {listed.length ? (
+              <ul className="space-y-2">
+                {listed.map((q) => (
+                  <li
+                    key={q.id}
+                    className="flex items-center justify-between gap-3 p-4 rounded-xl border border-white/10 bg-white/5"
+                  >
+                    <div>
+                      <div className="font-medium">
+                        {q.title} <QuizAvailability quiz={q} showStatus={staff} />
+                      </div>
+                      <div className="text-sm text-slate-400">{q.description || "—"}</div>
+                    </div>
+                    {staff ? (
+                      course.role === "instructor" && (
+                        <button
+                          className="px-2 py-1 text-sm rounded bg-white/10 text-slate-200 border border-white/10"
+                          onClick={() => moveQuiz(q, null)}
+                        >
+                          Remove
+                        </button>
+                      )
+                    ) : (
+                      <StartAttemptButton
+                        quiz={q}
+                        attempts={attempts}
+                        starting={taking === q.id}
+                        onStart={(code) => startAttempt(q.id, code)}
+                      />
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              !loading && <p className="text-slate-400">No quizzes in this course yet.</p>
+            )}
+          </section>
+        )}
+
+        {course && tab === "roster" && (
+          <CourseRoster
+            courseId={course.id}
+            members={members}
+            onMembers={setMembers}
+            canEdit={course.role === "instructor"}
+          />
+        )}
+
+        {course && tab === "grades" && (
+          <CourseGrades courseId={course.id} title={courseName(course)} quizzes={quizzes} members={members} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { type FormEvent, useCallback, useEffect, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import PageLoader from "../components/PageLoader";
+import InlineAlert from "../components/InLineAlerts";
+import { useAuth } from "../auth/AuthContext";
+import { api, errorMessage, isAbortError, isUnauthorized, type Course } from "../api";
+import { courseRoleLabel, inviteToken } from "../utils/courses";
+
+const inputClass = "w-full border border-white/10 bg-white/10 placeholder:text-slate-400 text-white p-2 rounded";
+
+export default function CoursesPage() {
+  const { user } = useAuth();
+  const nav = useNavigate();
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState("");
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  const load = useCallback(async () => {
+    setErr("");
+    setLoading(true);
+    abortRef.current?.abort();
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    try {
+      setCourses(await api.courses.list({ signal: ctrl.signal }));
+    } catch (e) {
+      if (!isAbortError(e) && !isUnauthorized(e)) setErr(errorMessage(e, "Failed to load courses"));
+    } finally {
+      if (abortRef.current === ctrl) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    return () => abortRef.current?.abort();
+  }, [load]);
+
+  return (
+    <div className="min-h-screen bg-[#0b1220] text-white">
+      <PageLoader show={loading} />
+      <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        <header>
+          <h1 className="text-2xl font-semibold">Courses</h1>
+          <p className="text-slate-400">
+            {user?.role === "INSTRUCTOR" ? "Group quizzes and students by class" : "Your classes and their quizzes"}
+          </p>
+        </header>
+
+        {err && (
+          <InlineAlert type="error" onRetry={load}>
+            {err}
+          </InlineAlert>
+        )}
+
+        <div className="grid md:grid-cols-2 gap-4">
+          {user?.role === "INSTRUCTOR" && (
+            <section className="p-4 rounded-2xl border border-white/10 bg-white/5">
+              <h2 className="text-lg font-semibold mb-3">Create Course</h2>
+              <CourseForm onCreated={(c) => nav(`/courses/${c.id}`)} />
+            </section>
+          )}
+          <section className="p-4 rounded-2xl border border-white/10 bg-white/5">
+            <h2 className="text-lg font-semibold mb-3">Join a Course</h2>
+            <JoinForm onJoined={(c) => nav(`/courses/${c.id}`)} />
+          </section>
+        </div>
+
+        <section>
+          <h2 className="text-lg font-semibold mb-3">My Courses</h2>
+          {courses.length ? (
+            <ul className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {courses.map((c) => (
+                <li key={c.id}>
+                  <Link
+                    to={`/courses/${c.id}`}
+                    className="block h-full p-4 rounded-xl border border-white/10 bg-white/5 hover:bg-white/10"
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        {c.code && <div className="text-xs text-sky-300">{c.code}</div>}
+                        <div className="font-medium">{c.title}</div>
+                      </div>
+                      {c.role && (
+                        <span className="px-2 py-0.5 text-xs rounded bg-white/10 text-slate-300">
+                          {courseRoleLabel(c.role)}
+                        </span>
+                      )}
+                    </div>
+                    {c.description && <p className="mt-1 text-sm text-slate-400 line-clamp-2">{c.description}</p>}
+                    <div className="mt-2 text-xs text-slate-500">
+                      {c.quizCount ?? 0} quiz{c.quizCount === 1 ? "" : "zes"}
+                      {c.memberCount !== undefined && ` · ${c.memberCount} member${c.memberCount === 1 ? "" : "s"}`}
+                    </div>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            !loading && <p className="text-slate-400">You aren't in any courses yet.</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
+
+function CourseForm({ onCreated }: { onCreated: (course: Course) => void }) {
+  const [title, setTitle] = useState("");
+  const [code, setCode] = useState("");
+  const [description, setDescription] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState("");
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!title.trim()) return;
+    setErr("");
+    setSaving(true);
+    try {
+      onCreated(
+        await api.courses.create({
+          title: title.trim(),
+          code: code.trim() || null,
+          description: description.trim() || null,
+        })
+      );
+    } catch (e) {
+      if (!isUnauthorized(e)) setErr(errorMessage(e, "Create failed"));
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form className="space-y-2" onSubmit={handleSubmit}>
+      <div className="flex gap-2">
+        <input
+          className={`${inputClass} max-w-[8rem]`}
+          placeholder="Code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+        />
+        <input
+          className={inputClass}
+          placeholder="Title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          required
+        />
+      </div>
+      <input
+        className={inputClass}
+        placeholder="Description (optional)"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+      />
+      {err && <p className="text-sm text-rose-300">{err}</p>}
+      <button
+        className="px-3 py-2 rounded bg-sky-600 hover:bg-sky-500 text-white disabled:opacity-60"
+        disabled={saving || !title.trim()}
+      >
+        {saving ? "Creating…" : "Create course"}
+      </button>
+    </form>
+  );
+}
+
+function JoinForm({ onJoined }: { onJoined: (course: Course) => void }) {
+  const [invite, setInvite] = useState("");
+  const [joining, setJoining] = useState(false);
+  const [err, setErr] = useState("");
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    const token = inviteToken(invite);
+    if (!token) return;
+    setErr("");
+    setJoining(true);
+    try {
+      onJoined(await api.courses.join(token));
+    } catch (e) {
+      if (!isUnauthorized(e)) setErr(errorMessage(e, "That invite didn't work"));
+      setJoining(false);
+    }
+  }
+
+  return (
+    <form className="space-y-2" onSubmit={handleSubmit}>
+      <input
+        className={inputClass}
+        placeholder="Paste the invite link from your instructor"
+        value={invite}
+        onChange={(e) => setInvite(e.target.value)}
+        required
+      />
+      {err && <p className="text-sm text-rose-300">{err}</p>}
+      <button
+        className="px-3 py-2 rounded bg-sky-600 hover:bg-sky-500 text-white disabled:opacity-60"
+        disabled={joining || !invite.trim()}
+      >
+        {joining ? "Joining…" : "Join"}
+      </button>
+    </form>
+  );
+}
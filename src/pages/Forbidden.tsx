@@ -1,8 +1,19 @@
+import { Link } from "react-router-dom";
+import { useAuth } from "../auth/AuthContext";
+import { roleHome } from "../auth/routeAccess";
+
 export default function Forbidden() {
+  const { user } = useAuth();
+
   return (
     <div className="p-8 text-center">
       <h1 className="text-2xl font-semibold">403 — Forbidden</h1>
       <p className="text-slate-500 mt-2">You don’t have access to this page.</p>
+      {user && (
+        <Link to={roleHome(user.role)} className="inline-block mt-4 text-sky-600 hover:underline">
+          ← Back to your dashboard
+        </Link>
+      )}
     </div>
   );
 }
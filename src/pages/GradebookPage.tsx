@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import PageLoader from "../components/PageLoader";
+import InlineAlert from "../components/InLineAlerts";
+import Gradebook from "../components/Gradebook";
+import {
+  api,
+  errorMessage,
+  isAbortError,
+  isMissingRoute,
+  isUnauthorized,
+  type Course,
+  type Quiz,
+  type QuizAttemptRow,
+} from "../api";
+import { courseName } from "../utils/courses";
+import { gradeRows, gradedQuizzes, type GradeStudent } from "../utils/grades";
+
+/** `?course=` holds a course id, "none" for quizzes outside any course, or nothing for every quiz. */
+const SCOPE_PARAM = "course";
+
+export default function GradebookPage() {
+  const [params, setParams] = useSearchParams();
+  const scope = params.get(SCOPE_PARAM) ?? "";
+  const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [ready, setReady] = useState(false);
+  /** The graded quizzes in scope, i.e. the gradebook's columns. */
+  const [columns, setColumns] = useState<Quiz[]>([]);
+  const [attempts, setAttempts] = useState<QuizAttemptRow[]>([]);
+  const [students, setStudents] = useState<GradeStudent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState("");
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadQuizzes = useCallback(async (signal?: AbortSignal) => {
+    setErr("");
+    try {
+      const [all, mine] = await Promise.all([
+        api.quiz.all({ signal }),
+        api.courses.list({ signal }).catch((e) => {
+          if (isMissingRoute(e)) return [];
+          throw e;
+        }),
+      ]);
+      setQuizzes(all);
+      setCourses(mine.filter((c) => !c.role || c.role === "instructor" || c.role === "ta"));
+      setReady(true);
+    } catch (e) {
+      if (!isAbortError(e) && !isUnauthorized(e)) setErr(errorMessage(e, "Failed to load quizzes"));
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const ctrl = new AbortController();
+    loadQuizzes(ctrl.signal);
+    return () => ctrl.abort();
+  }, [loadQuizzes]);
+
+  const course = courses.find((c) => String(c.id) === scope) ?? null;
+
+  const loadGrades = useCallback(async () => {
+    setErr("");
+    setLoading(true);
+    abortRef.current?.abort();
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    const o = { signal: ctrl.signal };
+    const perQuiz = (qs: Quiz[]) =>
+      Promise.all(qs.map((q) => api.attempts.listAll(q.id, o))).then((lists) => lists.flat());
+
+    try {
+      if (course) {
+        // The course's own lists, so TAs see quizzes they didn't write and students who haven't started yet.
+        const [qs, members] = await Promise.all([
+          api.courses.quizzes(course.id, o),
+          api.courses.members(course.id, o),
+        ]);
+        const graded = gradedQuizzes(qs);
+        const rows = await api.courses.attempts(course.id, o).catch((e) => {
+          if (isMissingRoute(e)) return perQuiz(graded);
+          throw e;
+        });
+        setColumns(graded);
+        setAttempts(rows);
+        setStudents(members.filter((m) => m.role === "student"));
+      } else {
+        const graded = gradedQuizzes(quizzes).filter((q) => (scope === "none" ? !q.courseId : true));
+        setAttempts(await perQuiz(graded));
+        setColumns(graded);
+        setStudents([]);
+      }
+    } catch (e) {
+      if (!isAbortError(e) && !isUnauthorized(e)) setErr(errorMessage(e, "Failed to load grades"));
+    } finally {
+      if (abortRef.current === ctrl) setLoading(false);
+    }
+  }, [course, quizzes, scope]);
+
+  useEffect(() => {
+    if (!ready) return;
+    loadGrades();
+    return () => abortRef.current?.abort();
+  }, [ready, loadGrades]);
+
+  const rows = useMemo(() => gradeRows(students, columns, attempts), [students, columns, attempts]);
+  const title = course ? courseName(course) : scope === "none" ? "Quizzes outside courses" : "All quizzes";
+
+  return (
+    <div className="min-h-screen bg-[#0b1220] text-white">
+      <PageLoader show={loading} />
+      <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        <header className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-semibold">Gradebook</h1>
+            <p className="text-slate-400">The score that counts for each student and quiz</p>
+          </div>
+          {courses.length > 0 && (
+            <select
+              className="px-2 py-1 text-sm rounded border border-white/10 bg-white/10 text-white"
+              value={scope}
+              onChange={(e) => setParams(e.target.value ? { [SCOPE_PARAM]: e.target.value } : {}, { replace: true })}
+              aria-label="Course"
+            >
+              <option value="" className="bg-[#0f172a]">
+                All quizzes
+              </option>
+              {courses.map((c) => (
+                <option key={c.id} value={c.id} className="bg-[#0f172a]">
+                  {courseName(c)}
+                </option>
+              ))}
+              <option value="none" className="bg-[#0f172a]">
+                Not in a course
+              </option>
+            </select>
+          )}
+        </header>
+
+        {err && (
+          <InlineAlert type="error" onRetry={ready ? loadGrades : () => loadQuizzes()}>
+            {err}
+          </InlineAlert>
+        )}
+
+        {ready && !loading && !err && (
+          <section className="p-4 rounded-2xl border border-white/10 bg-white/5">
+            {rows.length || !columns.length ? (
+              <Gradebook quizzes={columns} rows={rows} title={title} />
+            ) : (
+              <p className="text-slate-400">No attempts yet.</p>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,111 +1,63 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link } from "react-router-dom";
 import PageLoader from "../components/PageLoader";
 import InlineAlert from "../components/InLineAlerts";
-
-const API = import.meta.env.VITE_API_URL ?? "http://localhost:3000";
-
-function authHeaders() {
-  const token = localStorage.getItem("token") ?? "";
-  return {
-    "Content-Type": "application/json",
-    Authorization: `Bearer ${token}`,
-  };
-}
-
-type Quiz = { id: number; title: string; description?: string; createdAt?: string };
-type Question = { id: number; text: string; options: string[]; correctOptionIndex: number };
+import DrawRulesEditor from "../components/DrawRulesEditor";
+import QuestionForm from "../components/QuestionForm";
+import QuestionImportDialog from "../components/QuestionImportDialog";
+import QuizAccessPanel from "../components/QuizAccessPanel";
+import QuizAttemptSettings from "../components/QuizAttemptSettings";
+import QuizAvailability from "../components/QuizAvailability";
+import QuizExportMenu from "../components/QuizExportMenu";
+import QuizPublishPanel from "../components/QuizPublishPanel";
+import RichText from "../components/RichText";
+import {
+  api,
+  errorMessage,
+  isMissingRoute,
+  isUnauthorized,
+  type Course,
+  type Question,
+  type Quiz,
+  type QuizInput,
+  type ScoringPolicy,
+} from "../api";
+import { SCORING_POLICIES } from "../utils/attemptPolicy";
+import { courseName } from "../utils/courses";
+import { fmtPoints, questionPoints } from "../utils/scoring";
+import { describeCorrect, questionTypeLabel, toQuestionInput } from "../utils/questions";
 
 export default function InstructorPage() {
-  const nav = useNavigate();
-
   const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  /** Courses this instructor runs; empty on backends without courses. */
+  const [courses, setCourses] = useState<Course[]>([]);
+  /** "" for every quiz, "none" for quizzes outside any course, else a course id. */
+  const [courseFilter, setCourseFilter] = useState("");
   const [loading, setLoading] = useState(true);
   const [selectedQuiz, setSelectedQuiz] = useState<Quiz | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [dragId, setDragId] = useState<number | null>(null);
+  const [importing, setImporting] = useState(false);
   const [msg, setMsg] = useState("");
   const [err, setErr] = useState("");
 
-  async function getJSON<T>(path: string): Promise<T> {
-    const res = await fetch(`${API}${path}`, { headers: authHeaders() });
-    if (res.status === 401) {
-      localStorage.removeItem("token");
-      localStorage.removeItem("user");
-      nav("/login", { replace: true });
-      throw new Error("Unauthorized");
-    }
-    if (!res.ok) {
-      const j = await res.json().catch(() => ({}));
-      throw new Error(j?.message || `GET ${path} failed`);
-    }
-    return res.json() as Promise<T>;
-  }
-
-  async function postJSON<T>(path: string, body: any): Promise<T> {
-    const res = await fetch(`${API}${path}`, {
-      method: "POST",
-      headers: authHeaders(),
-      body: JSON.stringify(body),
-    });
-    if (res.status === 401) {
-      localStorage.removeItem("token");
-      localStorage.removeItem("user");
-      nav("/login", { replace: true });
-      throw new Error("Unauthorized");
-    }
-    if (!res.ok) {
-      const j = await res.json().catch(() => ({}));
-      throw new Error(j?.message || `POST ${path} failed`);
-    }
-    return res.json() as Promise<T>;
-  }
-
-  async function patchJSON<T>(path: string, body: any): Promise<T> {
-    const res = await fetch(`${API}${path}`, {
-      method: "PATCH",
-      headers: authHeaders(),
-      body: JSON.stringify(body),
-    });
-    if (res.status === 401) {
-      localStorage.removeItem("token");
-      localStorage.removeItem("user");
-      nav("/login", { replace: true });
-      throw new Error("Unauthorized");
-    }
-    if (!res.ok) {
-      const j = await res.json().catch(() => ({}));
-      throw new Error(j?.message || `PATCH ${path} failed`);
-    }
-    return res.json() as Promise<T>;
-  }
-
-  async function deleteReq(path: string) {
-    const res = await fetch(`${API}${path}`, {
-      method: "DELETE",
-      headers: authHeaders(),
-    });
-    if (res.status === 401) {
-      localStorage.removeItem("token");
-      localStorage.removeItem("user");
-      nav("/login", { replace: true });
-      throw new Error("Unauthorized");
-    }
-    if (!res.ok) {
-      const j = await res.json().catch(() => ({}));
-      throw new Error(j?.message || `DELETE ${path} failed`);
-    }
-    return res.json();
-  }
-
   async function loadQuizzes() {
     setLoading(true);
     setMsg("");
     setErr("");
     try {
-      const all = await getJSON<Quiz[]>("/quiz/all");
+      const [all, mine] = await Promise.all([
+        api.quiz.all(),
+        api.courses.list().catch((e) => {
+          if (isMissingRoute(e)) return [];
+          throw e;
+        }),
+      ]);
       setQuizzes(all);
-    } catch (e: any) {
-      if (e?.message !== "Unauthorized") setErr(e.message);
+      setCourses(mine.filter((c) => !c.role || c.role === "instructor"));
+    } catch (e) {
+      if (!isUnauthorized(e)) setErr(errorMessage(e, "Failed to load quizzes"));
     } finally {
       setLoading(false);
     }
@@ -114,37 +66,38 @@ export default function InstructorPage() {
   async function loadQuestions(quizId: number) {
     setErr("");
     try {
-      const qs = await getJSON<Question[]>(`/quiz/${quizId}/questions`);
+      const qs = await api.quiz.questions(quizId);
       setQuestions(qs);
-    } catch (e: any) {
-      if (e?.message !== "Unauthorized") {
+    } catch (e) {
+      if (!isUnauthorized(e)) {
         setQuestions([]);
-        setErr(e.message || "Failed to load questions");
+        setErr(errorMessage(e, "Failed to load questions"));
       }
     }
   }
 
-  async function createQuiz(title: string, description?: string) {
+  async function createQuiz(input: QuizInput) {
     setErr("");
     setMsg("");
     try {
-      const q = await postJSON<Quiz>("/quiz/create", { title, description });
+      const q = await api.quiz.create(input);
       setQuizzes((prev) => [q, ...prev]);
       setMsg(`Created quiz "${q.title}"`);
-    } catch (e: any) {
-      if (e?.message !== "Unauthorized") setErr(e.message);
+    } catch (e) {
+      if (!isUnauthorized(e)) setErr(errorMessage(e, "Create failed"));
     }
   }
 
-  async function updateQuiz(quizId: number, title: string, description?: string) {
+  async function updateQuiz(quizId: number, input: Partial<QuizInput>) {
     setErr("");
     setMsg("");
     try {
-      const q = await patchJSON<Quiz>(`/quiz/${quizId}`, { title, description });
+      const q = await api.quiz.update(quizId, input);
       setQuizzes((prev) => prev.map((x) => (x.id === quizId ? q : x)));
+      setSelectedQuiz((sel) => (sel?.id === quizId ? q : sel));
       setMsg(`Updated quiz #${quizId}`);
-    } catch (e: any) {
-      if (e?.message !== "Unauthorized") setErr(e.message);
+    } catch (e) {
+      if (!isUnauthorized(e)) setErr(errorMessage(e, "Update failed"));
     }
   }
 
@@ -153,15 +106,69 @@ export default function InstructorPage() {
     setErr("");
     setMsg("");
     try {
-      await deleteReq(`/quiz/${quizId}`);
+      await api.quiz.remove(quizId);
       setQuizzes((prev) => prev.filter((x) => x.id !== quizId));
       setMsg(`Deleted quiz #${quizId}`);
       if (selectedQuiz?.id === quizId) {
         setSelectedQuiz(null);
         setQuestions([]);
       }
-    } catch (e: any) {
-      if (e?.message !== "Unauthorized") setErr(e.message);
+    } catch (e) {
+      if (!isUnauthorized(e)) setErr(errorMessage(e, "Delete failed"));
+    }
+  }
+
+  /**
+   * Shows the new order right away and restores the previous order if the
+   * backend rejects it. Only the order rolls back: questions added meanwhile
+   * (e.g. a duplicate) stay, at the end where the backend appended them.
+   */
+  async function saveOrder(quizId: number, next: Question[]) {
+    const previous = new Map(questions.map((q, i) => [q.id, i]));
+    const rank = (q: Question) => previous.get(q.id) ?? Infinity;
+    setQuestions(next);
+    try {
+      await api.quiz.reorderQuestions(quizId, next.map((q) => q.id));
+    } catch (e) {
+      if (!isUnauthorized(e)) {
+        setQuestions((list) => [...list].sort((a, b) => rank(a) - rank(b)));
+        setErr(errorMessage(e, "Could not save the new order"));
+      }
+    }
+  }
+
+  function moveQuestion(quizId: number, questionId: number, to: number) {
+    const from = questions.findIndex((q) => q.id === questionId);
+    if (from < 0 || to < 0 || to >= questions.length || from === to) return;
+    const next = [...questions];
+    next.splice(to, 0, ...next.splice(from, 1));
+    saveOrder(quizId, next);
+  }
+
+  async function duplicateQuestion(quizId: number, q: Question) {
+    setErr("");
+    setMsg("");
+    try {
+      const copy = await api.quiz.addQuestion(quizId, { ...toQuestionInput(q), text: `${q.text} (copy)` });
+      // New questions are appended; move the copy right after its original.
+      const i = questions.findIndex((x) => x.id === q.id);
+      await saveOrder(quizId, [...questions.slice(0, i + 1), copy, ...questions.slice(i + 1)]);
+      setMsg("Question duplicated");
+    } catch (e) {
+      if (!isUnauthorized(e)) setErr(errorMessage(e, "Duplicate failed"));
+    }
+  }
+
+  async function deleteQuestion(quizId: number, q: Question) {
+    if (!confirm(`Delete question "${q.text}"? This cannot be undone.`)) return;
+    setErr("");
+    setMsg("");
+    try {
+      await api.quiz.removeQuestion(quizId, q.id);
+      setQuestions((prev) => prev.filter((x) => x.id !== q.id));
+      setMsg("Question deleted");
+    } catch (e) {
+      if (!isUnauthorized(e)) setErr(errorMessage(e, "Delete failed"));
     }
   }
 
@@ -169,13 +176,23 @@ export default function InstructorPage() {
     loadQuizzes();
   }, []);
 
+  const shown = quizzes.filter((q) =>
+    courseFilter === "" ? true : courseFilter === "none" ? !q.courseId : q.courseId === Number(courseFilter)
+  );
+  const courseOf = (q: Quiz) => courses.find((c) => c.id === q.courseId);
+
   return (
     <div className="min-h-screen bg-[#0b1220] text-white">
       <PageLoader show={loading} />
       <div className="max-w-6xl mx-auto px-4 py-8">
         <header>
           <h1 className="text-2xl font-semibold">Instructor Dashboard</h1>
-          <p className="text-slate-400">Manage your quizzes & questions</p>
+          <p className="text-slate-400">
+            Manage your quizzes & questions ·{" "}
+            <Link to="/gradebook" className="text-sky-300 hover:underline">
+              Gradebook
+            </Link>
+          </p>
         </header>
 
         {err && (
@@ -193,33 +210,66 @@ export default function InstructorPage() {
 
         <section className="mt-6 p-4 rounded-2xl border border-white/10 bg-white/5">
           <h2 className="text-lg font-semibold mb-3">Create Quiz</h2>
-          <QuizForm onSave={createQuiz} />
+          <QuizForm onSave={createQuiz} courses={courses} />
         </section>
 
         <section className="mt-6">
-          <h2 className="text-lg font-semibold mb-3">My Quizzes</h2>
-          {!loading && quizzes.length ? (
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <h2 className="text-lg font-semibold">My Quizzes</h2>
+            {courses.length > 0 && (
+              <select
+                className="px-2 py-1 text-sm rounded border border-white/10 bg-white/10 text-white"
+                value={courseFilter}
+                onChange={(e) => setCourseFilter(e.target.value)}
+                aria-label="Filter by course"
+              >
+                <option value="" className="bg-[#0f172a]">
+                  All courses
+                </option>
+                {courses.map((c) => (
+                  <option key={c.id} value={c.id} className="bg-[#0f172a]">
+                    {courseName(c)}
+                  </option>
+                ))}
+                <option value="none" className="bg-[#0f172a]">
+                  Not in a course
+                </option>
+              </select>
+            )}
+          </div>
+          {!loading && shown.length ? (
             <div className="overflow-x-auto rounded border border-white/10">
               <table className="min-w-full">
                 <thead className="bg-white/5 text-slate-300">
                   <tr>
                     <th className="py-2 px-3 text-left">Title</th>
+                    {courses.length > 0 && <th className="py-2 px-3 text-left">Course</th>}
                     <th className="py-2 px-3 text-left">Created</th>
+                    <th className="py-2 px-3 text-left">Time limit</th>
                     <th className="py-2 px-3">Actions</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-white/10">
-                  {quizzes.map((q) => (
+                  {shown.map((q) => (
                     <tr key={q.id}>
-                      <td className="py-2 px-3">{q.title}</td>
+                      <td className="py-2 px-3">
+                        {q.title} <QuizAvailability quiz={q} showStatus />
+                      </td>
+                      {courses.length > 0 && (
+                        <td className="py-2 px-3 text-slate-300">{courseOf(q)?.code ?? courseOf(q)?.title ?? "—"}</td>
+                      )}
                       <td className="py-2 px-3 text-slate-300">
                         {q.createdAt ? new Date(q.createdAt).toLocaleDateString() : "—"}
                       </td>
+                      <td className="py-2 px-3 text-slate-300">
+                        {q.timeLimitMinutes ? `${q.timeLimitMinutes} min` : "—"}
+                      </td>
                       <td className="py-2 px-3 space-x-2">
                         <button
                           className="px-2 py-1 text-sm rounded bg-sky-500/20 text-sky-200 border border-sky-500/30"
                           onClick={() => {
                             setSelectedQuiz(q);
+                            setEditingId(null);
                             loadQuestions(q.id);
                           }}
                         >
@@ -230,48 +280,229 @@ export default function InstructorPage() {
                           onClick={() => {
                             const newTitle = prompt("New title:", q.title);
                             if (newTitle !== null && newTitle.trim().length > 0) {
-                              updateQuiz(q.id, newTitle.trim(), q.description);
+                              updateQuiz(q.id, { title: newTitle.trim(), description: q.description });
                             }
                           }}
                         >
                           Edit
                         </button>
+                        <Link
+                          to={`/quiz/${q.id}/attempts`}
+                          className="inline-block px-2 py-1 text-sm rounded bg-emerald-500/20 text-emerald-200 border border-emerald-500/30"
+                        >
+                          Attempts
+                        </Link>
                         <button
                           className="px-2 py-1 text-sm rounded bg-rose-500/20 text-rose-200 border border-rose-500/30"
                           onClick={() => deleteQuiz(q.id)}
                         >
                           Delete
                         </button>
+                        <QuizExportMenu
+                          quiz={q}
+                          onMessage={(m, type) => {
+                            setMsg(type === "info" ? m : "");
+                            setErr(type === "error" ? m : "");
+                          }}
+                        />
                       </td>
                     </tr>
                   ))}
                 </tbody>
               </table>
             </div>
-          ) : !loading && <p className="text-slate-400">No quizzes yet.</p>}
+          ) : (
+            !loading && (
+              <p className="text-slate-400">{quizzes.length ? "No quizzes in this course." : "No quizzes yet."}</p>
+            )
+          )}
         </section>
 
         {selectedQuiz && (
           <section className="mt-6 p-4 rounded-2xl border border-white/10 bg-white/5">
-            <h2 className="text-lg font-semibold mb-3">
-              Questions for {selectedQuiz.title}
-            </h2>
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-semibold">
+                Questions for {selectedQuiz.title}
+                {questions.length > 0 && (
+                  <span className="ml-2 text-sm font-normal text-slate-400">
+                    {fmtPoints(questions.reduce((sum, q) => sum + questionPoints(q), 0))} points
+                  </span>
+                )}
+              </h2>
+              <button
+                className="px-2 py-1 text-sm rounded bg-sky-500/20 text-sky-200 border border-sky-500/30"
+                onClick={() => setImporting(true)}
+              >
+                Import…
+              </button>
+            </div>
+
+            <div className="flex flex-wrap gap-4 mb-4 text-sm text-slate-300">
+              {courses.length > 0 && (
+                <label className="flex items-center gap-2">
+                  Course
+                  <CourseSelect
+                    courses={courses}
+                    value={selectedQuiz.courseId ?? null}
+                    onChange={(courseId) => updateQuiz(selectedQuiz.id, { courseId })}
+                  />
+                </label>
+              )}
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!!selectedQuiz.shuffleQuestions}
+                  onChange={(e) => updateQuiz(selectedQuiz.id, { shuffleQuestions: e.target.checked })}
+                />
+                Shuffle questions
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!!selectedQuiz.shuffleOptions}
+                  onChange={(e) => updateQuiz(selectedQuiz.id, { shuffleOptions: e.target.checked })}
+                />
+                Shuffle options
+              </label>
+            </div>
+
+            <QuizAttemptSettings
+              key={`attempts-${selectedQuiz.id}`}
+              quiz={selectedQuiz}
+              onSave={(input) => updateQuiz(selectedQuiz.id, input)}
+            />
+
+            {importing && (
+              <QuestionImportDialog
+                quizId={selectedQuiz.id}
+                onImported={(added) => {
+                  setQuestions((prev) => [...prev, ...added]);
+                  setMsg(`Imported ${added.length} question${added.length === 1 ? "" : "s"}`);
+                }}
+                onClose={() => setImporting(false)}
+              />
+            )}
+
+            <QuizPublishPanel
+              key={`publish-${selectedQuiz.id}`}
+              quiz={selectedQuiz}
+              questions={questions}
+              onChange={(q) => {
+                setQuizzes((prev) => prev.map((x) => (x.id === q.id ? q : x)));
+                setSelectedQuiz(q);
+              }}
+            />
+
+            <QuizAccessPanel
+              key={`access-${selectedQuiz.id}`}
+              quiz={selectedQuiz}
+              onChange={(q) => {
+                setQuizzes((prev) => prev.map((x) => (x.id === q.id ? q : x)));
+                setSelectedQuiz(q);
+              }}
+            />
+
+            <DrawRulesEditor
+              key={selectedQuiz.id}
+              quiz={selectedQuiz}
+              onSaved={(drawRules) => {
+                setQuizzes((prev) => prev.map((q) => (q.id === selectedQuiz.id ? { ...q, drawRules } : q)));
+                setSelectedQuiz({ ...selectedQuiz, drawRules });
+              }}
+            />
 
             <QuestionForm
-              quizId={selectedQuiz.id}
-              onAdded={() => loadQuestions(selectedQuiz.id)}
+              save={(input) => api.quiz.addQuestion(selectedQuiz.id, input)}
+              onSaved={(q) => setQuestions((prev) => [...prev, q])}
             />
 
             {questions.length ? (
               <ul className="mt-4 space-y-2">
-                {questions.map((q, i) => (
-                  <li key={q.id} className="p-2 rounded border border-white/10 bg-white/5">
-                    <strong>{i + 1}.</strong> {q.text} <br />
-                    <span className="text-sm text-slate-300">
-                      Correct: {q.options[q.correctOptionIndex]}
-                    </span>
-                  </li>
-                ))}
+                {questions.map((q, i) =>
+                  editingId === q.id ? (
+                    <li key={q.id} className="p-3 rounded border border-sky-500/40 bg-white/5">
+                      <QuestionForm
+                        question={q}
+                        save={(input) => api.quiz.updateQuestion(selectedQuiz.id, q.id, input)}
+                        onSaved={(saved) => {
+                          setQuestions((prev) => prev.map((x) => (x.id === saved.id ? saved : x)));
+                          setEditingId(null);
+                        }}
+                        onCancel={() => setEditingId(null)}
+                      />
+                    </li>
+                  ) : (
+                    <li
+                      key={q.id}
+                      draggable
+                      onDragStart={() => setDragId(q.id)}
+                      onDragEnd={() => setDragId(null)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        if (dragId !== null) moveQuestion(selectedQuiz.id, dragId, i);
+                        setDragId(null);
+                      }}
+                      className={`p-2 rounded border bg-white/5 flex items-start gap-2 ${
+                        dragId === q.id ? "border-sky-500/60 opacity-60" : "border-white/10"
+                      }`}
+                    >
+                      <span className="cursor-grab select-none text-slate-500 px-1" title="Drag to reorder">
+                        ⋮⋮
+                      </span>
+                      <div className="flex-1 space-y-1">
+                        <div className="flex gap-2">
+                          <strong>{i + 1}.</strong>
+                          <RichText text={q.text} className="flex-1" />
+                        </div>
+                        <span className="px-1.5 py-0.5 text-xs rounded bg-white/10 text-slate-300">
+                          {questionTypeLabel(q.type)}
+                        </span>{" "}
+                        <span className="px-1.5 py-0.5 text-xs rounded bg-white/10 text-slate-300">
+                          {fmtPoints(questionPoints(q))} pt{questionPoints(q) === 1 ? "" : "s"}
+                          {q.type === "multi" && q.partialCredit ? ", partial credit" : ""}
+                        </span>
+                        <div className="text-sm text-slate-300">Correct: {describeCorrect(q) ?? "—"}</div>
+                      </div>
+                      <div className="flex flex-wrap gap-1 justify-end">
+                        <button
+                          className="px-2 py-1 text-sm rounded border border-white/10 bg-white/5 disabled:opacity-40"
+                          onClick={() => moveQuestion(selectedQuiz.id, q.id, i - 1)}
+                          disabled={i === 0}
+                          aria-label="Move up"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          className="px-2 py-1 text-sm rounded border border-white/10 bg-white/5 disabled:opacity-40"
+                          onClick={() => moveQuestion(selectedQuiz.id, q.id, i + 1)}
+                          disabled={i === questions.length - 1}
+                          aria-label="Move down"
+                        >
+                          ↓
+                        </button>
+                        <button
+                          className="px-2 py-1 text-sm rounded bg-amber-500/20 text-amber-200 border border-amber-500/30"
+                          onClick={() => setEditingId(q.id)}
+                        >
+                          Edit
+                        </button>
+                        <button
+                          className="px-2 py-1 text-sm rounded bg-sky-500/20 text-sky-200 border border-sky-500/30"
+                          onClick={() => duplicateQuestion(selectedQuiz.id, q)}
+                        >
+                          Duplicate
+                        </button>
+                        <button
+                          className="px-2 py-1 text-sm rounded bg-rose-500/20 text-rose-200 border border-rose-500/30"
+                          onClick={() => deleteQuestion(selectedQuiz.id, q)}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </li>
+                  )
+                )}
               </ul>
             ) : (
               <p className="text-slate-400">No questions yet.</p>
@@ -283,9 +514,52 @@ export default function InstructorPage() {
   );
 }
 
-function QuizForm({ onSave }: { onSave: (title: string, desc?: string) => void }) {
+function CourseSelect({
+  courses,
+  value,
+  onChange,
+  className = "px-2 py-1 rounded border border-white/10 bg-white/10 text-white",
+}: {
+  courses: Course[];
+  value: number | null;
+  onChange: (courseId: number | null) => void;
+  className?: string;
+}) {
+  return (
+    <select
+      className={className}
+      value={value ?? ""}
+      onChange={(e) => onChange(e.target.value ? Number(e.target.value) : null)}
+      aria-label="Course"
+    >
+      <option value="" className="bg-[#0f172a]">
+        No course
+      </option>
+      {courses.map((c) => (
+        <option key={c.id} value={c.id} className="bg-[#0f172a]">
+          {courseName(c)}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function QuizForm({
+  onSave,
+  courses,
+}: {
+  onSave: (input: QuizInput) => void;
+  courses: Course[];
+}) {
   const [title, setTitle] = useState("");
+  // Kept between creates, for adding several quizzes to one course.
+  const [courseId, setCourseId] = useState<number | null>(null);
   const [desc, setDesc] = useState("");
+  const [timeLimit, setTimeLimit] = useState<number | "">("");
+  const [shuffleQuestions, setShuffleQuestions] = useState(false);
+  const [shuffleOptions, setShuffleOptions] = useState(false);
+  const [maxAttempts, setMaxAttempts] = useState<number | "">("");
+  const [scoringPolicy, setScoringPolicy] = useState<ScoringPolicy>("best");
   const [saving, setSaving] = useState(false);
   const [err, setErr] = useState("");
 
@@ -298,11 +572,25 @@ function QuizForm({ onSave }: { onSave: (title: string, desc?: string) => void }
         if (!title.trim()) return;
         try {
           setSaving(true);
-          await onSave(title.trim(), desc || undefined);
+          await onSave({
+            title: title.trim(),
+            description: desc || undefined,
+            timeLimitMinutes: timeLimit || null,
+            shuffleQuestions,
+            shuffleOptions,
+            maxAttempts: maxAttempts || null,
+            scoringPolicy,
+            courseId,
+          });
           setTitle("");
           setDesc("");
-        } catch (e: any) {
-          setErr(e.message || "Create failed");
+          setTimeLimit("");
+          setShuffleQuestions(false);
+          setShuffleOptions(false);
+          setMaxAttempts("");
+          setScoringPolicy("best");
+        } catch (e) {
+          setErr(errorMessage(e, "Create failed"));
         } finally {
           setSaving(false);
         }
@@ -321,95 +609,60 @@ function QuizForm({ onSave }: { onSave: (title: string, desc?: string) => void }
         value={desc}
         onChange={(e) => setDesc(e.target.value)}
       />
-      {err && <p className="text-rose-300 text-sm">{err}</p>}
-      <button
-        className="px-3 py-1 bg-sky-600 hover:bg-sky-500 text-white rounded disabled:opacity-60"
-        disabled={saving}
-      >
-        {saving ? "Creating…" : "Create"}
-      </button>
-    </form>
-  );
-}
-
-function QuestionForm({ quizId, onAdded }: { quizId: number; onAdded: () => void }) {
-  const [text, setText] = useState("");
-  const [options, setOptions] = useState("");
-  const [correct, setCorrect] = useState<number | "">("");
-  const [saving, setSaving] = useState(false);
-  const [err, setErr] = useState("");
-
-  async function addQuestion() {
-    setErr("");
-    setSaving(true);
-    try {
-      const res = await fetch(`${API}/quiz/${quizId}/questions`, {
-        method: "POST",
-        headers: authHeaders(),
-        body: JSON.stringify({
-          text,
-          options: options
-            .split(/\n|,/)
-            .map((o) => o.trim())
-            .filter(Boolean),
-          correctOptionIndex: Number(correct),
-        }),
-      });
-      if (!res.ok) {
-        const j = await res.json().catch(() => ({}));
-        throw new Error(j?.message || "Add failed");
-      }
-      await res.json();
-      setText("");
-      setOptions("");
-      setCorrect("");
-      onAdded();
-    } catch (e: any) {
-      setErr(e.message || "Add failed");
-    } finally {
-      setSaving(false);
-    }
-  }
-
-  return (
-    <form
-      className="space-y-2"
-      onSubmit={(e) => {
-        e.preventDefault();
-        if (!text.trim()) return setErr("Question text is required");
-        if (!options.trim()) return setErr("At least one option is required");
-        if (correct === "" || Number.isNaN(Number(correct))) return setErr("Correct index is required");
-        addQuestion();
-      }}
-    >
-      <textarea
-        className="w-full border border-white/10 bg-white/10 placeholder:text-slate-400 text-white p-2 rounded"
-        placeholder="Question text"
-        value={text}
-        onChange={(e) => setText(e.target.value)}
-        required
-      />
-      <textarea
-        className="w-full border border-white/10 bg-white/10 placeholder:text-slate-400 text-white p-2 rounded"
-        placeholder="Options (one per line or comma separated)"
-        value={options}
-        onChange={(e) => setOptions(e.target.value)}
-        required
-      />
       <input
         className="w-full border border-white/10 bg-white/10 placeholder:text-slate-400 text-white p-2 rounded"
         type="number"
-        placeholder="Correct option index (0-based)"
-        value={correct}
-        onChange={(e) => setCorrect(e.target.value === "" ? "" : Number(e.target.value))}
-        required
+        min={1}
+        placeholder="Time limit in minutes (optional)"
+        value={timeLimit}
+        onChange={(e) => setTimeLimit(e.target.value === "" ? "" : Math.max(1, Math.floor(Number(e.target.value))))}
       />
+      <div className="flex flex-wrap gap-4 text-sm text-slate-300">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={shuffleQuestions} onChange={(e) => setShuffleQuestions(e.target.checked)} />
+          Shuffle questions per attempt
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={shuffleOptions} onChange={(e) => setShuffleOptions(e.target.checked)} />
+          Shuffle options per attempt
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <input
+          className="flex-1 border border-white/10 bg-white/10 placeholder:text-slate-400 text-white p-2 rounded"
+          type="number"
+          min={1}
+          placeholder="Max attempts (optional)"
+          value={maxAttempts}
+          onChange={(e) => setMaxAttempts(e.target.value === "" ? "" : Math.max(1, Math.floor(Number(e.target.value))))}
+        />
+        <select
+          className="flex-1 border border-white/10 bg-white/10 text-white p-2 rounded"
+          value={scoringPolicy}
+          onChange={(e) => setScoringPolicy(e.target.value as ScoringPolicy)}
+          aria-label="Score that counts"
+        >
+          {SCORING_POLICIES.map((p) => (
+            <option key={p.value} value={p.value} className="bg-[#0f172a]">
+              Counts: {p.label}
+            </option>
+          ))}
+        </select>
+        {courses.length > 0 && (
+          <CourseSelect
+            courses={courses}
+            value={courseId}
+            onChange={setCourseId}
+            className="flex-1 border border-white/10 bg-white/10 text-white p-2 rounded"
+          />
+        )}
+      </div>
       {err && <p className="text-rose-300 text-sm">{err}</p>}
       <button
-        className="px-3 py-1 bg-emerald-600 hover:bg-emerald-500 text-white rounded disabled:opacity-60"
+        className="px-3 py-1 bg-sky-600 hover:bg-sky-500 text-white rounded disabled:opacity-60"
         disabled={saving}
       >
-        {saving ? "Adding…" : "Add Question"}
+        {saving ? "Creating…" : "Create"}
       </button>
     </form>
   );
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import PageLoader from "../components/PageLoader";
+import InlineAlert from "../components/InLineAlerts";
+import { api, errorMessage, isAbortError, isUnauthorized } from "../api";
+
+/** Where invite links land: joins the course, then goes to it. */
+export default function JoinCoursePage() {
+  const { token } = useParams();
+  const nav = useNavigate();
+  const [err, setErr] = useState(token ? "" : "This invite link is incomplete.");
+
+  useEffect(() => {
+    if (!token) return;
+    const ctrl = new AbortController();
+    api.courses
+      .join(token, { signal: ctrl.signal })
+      .then((course) => nav(`/courses/${course.id}`, { replace: true }))
+      .catch((e) => {
+        if (!isAbortError(e) && !isUnauthorized(e))
+          setErr(errorMessage(e, "This invite link is invalid or has expired."));
+      });
+    return () => ctrl.abort();
+  }, [token, nav]);
+
+  return (
+    <div className="min-h-screen bg-[#0b1220] text-white">
+      <PageLoader show={!err} />
+      <div className="max-w-xl mx-auto px-4 py-8 space-y-4">
+        <h1 className="text-2xl font-semibold">Joining course…</h1>
+        {err && (
+          <>
+            <InlineAlert type="error">{err}</InlineAlert>
+            <Link to="/courses" className="text-sky-300 hover:underline">
+              Go to your courses
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
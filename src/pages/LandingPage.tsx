@@ -1,15 +1,8 @@
 import { useEffect, useMemo, useState } from "react";
 import { Link } from "react-router-dom";
-
-const API = import.meta.env.VITE_API_URL ?? "http://localhost:3000";
-
-type QuizBrief = {
-  id: number;
-  title: string;
-  description?: string | null;
-  category?: string | null;
-  plays?: number;
-};
+import QuizAvailability from "../components/QuizAvailability";
+import { api, errorMessage, type QuizBrief } from "../api";
+import { quizStatus } from "../utils/quizStatus";
 
 function fmt(n?: number) {
   if (n === undefined || n === null) return "";
@@ -18,15 +11,6 @@ function fmt(n?: number) {
   return String(n);
 }
 
-async function getJSON<T>(url: string): Promise<T> {
-  const res = await fetch(url);
-  if (!res.ok) {
-    const j = await res.json().catch(() => ({}));
-    throw new Error(j?.message || `${res.status} ${res.statusText}`);
-  }
-  return res.json() as Promise<T>;
-}
-
 export default function LandingPage() {
   const [loading, setLoading] = useState(true);
 
@@ -45,31 +29,24 @@ export default function LandingPage() {
       setLoading(true);
 
       try {
-        let data: any[] | null = null;
+        let normalized: QuizBrief[];
         try {
-          data = await getJSON<any[]>(`${API}/quiz/popular`);
+          normalized = await api.catalog.popular();
         } catch {
-            try {
-              data = await getJSON<any[]>(`${API}/quiz/all-with-plays`);
-            } catch {
-                data = await getJSON<any[]>(`${API}/quiz/all`);
-              }
+          try {
+            normalized = await api.catalog.allWithPlays();
+          } catch {
+            normalized = await api.catalog.all();
           }
-
-        const normalized: QuizBrief[] = (data || []).map((q: any) => ({
-          id: Number(q.id ?? q.quizId ?? 0),
-          title: q.title ?? "Untitled Quiz",
-          description: q.description ?? "",
-          category: q.category ?? q.topic ?? null,
-          plays: Number(q.plays ?? 0),
-        }));
+        }
 
         if (!alive) return;
+        normalized = normalized.filter((q) => quizStatus(q) === "open");
         setAllQuizzes(normalized);
         setQuizzes(normalized);
-      } catch (e: any) {
+      } catch (e) {
         if (!alive) return;
-        setError(e?.message || "Failed to load quizzes");
+        setError(errorMessage(e, "Failed to load quizzes"));
         setAllQuizzes([]);
         setQuizzes([]);
       } finally {
@@ -98,16 +75,7 @@ export default function LandingPage() {
 
       let results: QuizBrief[] | null = null;
       try {
-        const res = await getJSON<any[]>(
-          `${API}/quiz/search?q=${encodeURIComponent(q)}`
-        );
-        results = (res || []).map((r: any) => ({
-          id: Number(r.id ?? r.quizId ?? 0),
-          title: r.title ?? "Untitled Quiz",
-          description: r.description ?? "",
-          category: r.category ?? r.topic ?? null,
-          plays: Number(r.plays ?? 0),
-        }));
+        results = await api.catalog.search(q);
       } catch {
         const lc = q.toLowerCase();
         results = allQuizzes.filter(
@@ -118,9 +86,9 @@ export default function LandingPage() {
         );
       }
 
-      setQuizzes(results ?? []);
-    } catch (err: any) {
-      setError(err?.message || "Search failed");
+      setQuizzes((results ?? []).filter((x) => quizStatus(x) === "open"));
+    } catch (err) {
+      setError(errorMessage(err, "Search failed"));
     } finally {
       setSearching(false);
     }
@@ -268,7 +236,7 @@ export default function LandingPage() {
                     {(q as QuizBrief).title}
                   </div>
                   <div className="text-xs text-slate-400 mt-1">
-                    {fmt((q as QuizBrief).plays)} plays
+                    {fmt((q as QuizBrief).plays)} plays <QuizAvailability quiz={q as QuizBrief} />
                   </div>
                   <div className="text-sm text-slate-300 mt-2">
                     {(q as QuizBrief).description
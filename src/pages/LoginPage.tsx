@@ -1,10 +1,12 @@
 import { type FormEvent, useState } from "react";
 import { useAuth } from "../auth/AuthContext";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useLocation } from "react-router-dom";
+import { errorMessage } from "../api";
 
 export default function LoginPage() {
   const { signIn } = useAuth();
-  const nav = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: string } | null)?.from;
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [err, setErr] = useState("");
@@ -15,10 +17,9 @@ export default function LoginPage() {
     try {
       setLoading(true);
       setErr("");
-      await signIn(email, password);
-      nav("/dashboard");
-    } catch (e: any) {
-      setErr(e.message || "Login failed");
+      await signIn(email, password, from);
+    } catch (e) {
+      setErr(errorMessage(e, "Login failed"));
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,247 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import PageLoader from "../components/PageLoader";
+import InlineAlert from "../components/InLineAlerts";
+import QuestionForm from "../components/QuestionForm";
+import RichText from "../components/RichText";
+import {
+  api,
+  errorMessage,
+  isAbortError,
+  isMissingRoute,
+  isUnauthorized,
+  type BankQuestion,
+  type Difficulty,
+} from "../api";
+import { DIFFICULTIES, describeCorrect, questionTypeLabel } from "../utils/questions";
+
+const DIFFICULTY_STYLES: Record<Difficulty, string> = {
+  easy: "bg-emerald-500/20 text-emerald-300",
+  medium: "bg-amber-500/20 text-amber-300",
+  hard: "bg-rose-500/20 text-rose-300",
+};
+
+export default function QuestionBankPage() {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tag, setTag] = useState("");
+  const [difficulty, setDifficulty] = useState<Difficulty | "">("");
+  const [query, setQuery] = useState("");
+  // Applied on submit, so typing doesn't fire a request per keystroke.
+  const [search, setSearch] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [unavailable, setUnavailable] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [msg, setMsg] = useState("");
+  const [err, setErr] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+
+  const load = useCallback(async () => {
+    setErr("");
+    setLoading(true);
+    abortRef.current?.abort();
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+
+    try {
+      const [qs, allTags] = await Promise.all([
+        api.bank.list(
+          { tag: tag || undefined, difficulty: difficulty || undefined, query: search || undefined },
+          { signal: ctrl.signal }
+        ),
+        api.bank.tags({ signal: ctrl.signal }),
+      ]);
+      setQuestions(qs);
+      setTags(allTags);
+    } catch (e) {
+      if (isMissingRoute(e)) setUnavailable(true);
+      else if (!isAbortError(e) && !isUnauthorized(e)) setErr(errorMessage(e, "Failed to load the question bank"));
+    } finally {
+      if (abortRef.current === ctrl) setLoading(false);
+    }
+  }, [tag, difficulty, search]);
+
+  useEffect(() => {
+    load();
+    return () => abortRef.current?.abort();
+  }, [load]);
+
+  function mergeTags(added: string[]) {
+    setTags((prev) => [...new Set([...prev, ...added])].sort());
+  }
+
+  async function remove(q: BankQuestion) {
+    if (!confirm(`Delete "${q.text}" from your bank? Quizzes that draw from it will stop using it.`)) return;
+    setErr("");
+    setMsg("");
+    try {
+      await api.bank.remove(q.id);
+      setQuestions((prev) => prev.filter((x) => x.id !== q.id));
+      setMsg("Question deleted");
+    } catch (e) {
+      if (!isUnauthorized(e)) setErr(errorMessage(e, "Delete failed"));
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0b1220] text-white">
+      <PageLoader show={loading} />
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        <header>
+          <h1 className="text-2xl font-semibold">Question Bank</h1>
+          <p className="text-slate-400">
+            Tag questions once and let quizzes draw a fresh set for every attempt.
+          </p>
+        </header>
+
+        {err && (
+          <div className="mt-4">
+            <InlineAlert type="error" onRetry={load}>
+              {err}
+            </InlineAlert>
+          </div>
+        )}
+        {msg && !err && (
+          <div className="mt-4 p-3 rounded bg-emerald-500/15 text-emerald-200 border border-emerald-500/30">
+            {msg}
+          </div>
+        )}
+
+        {unavailable ? (
+          <p className="mt-6 text-slate-300">
+            This backend doesn’t expose the question bank yet. Add{" "}
+            <code className="text-sky-300">GET/POST /bank/questions</code>,{" "}
+            <code className="text-sky-300">PATCH/DELETE /bank/questions/:id</code> and{" "}
+            <code className="text-sky-300">GET /bank/tags</code>.
+          </p>
+        ) : (
+          <>
+            <section className="mt-6 p-4 rounded-2xl border border-white/10 bg-white/5">
+              <h2 className="text-lg font-semibold mb-3">Add to bank</h2>
+              <QuestionForm
+                withMeta
+                save={(input, meta) => api.bank.create({ ...input, ...meta })}
+                onSaved={(q) => {
+                  setQuestions((prev) => [q, ...prev]);
+                  mergeTags(q.tags);
+                }}
+              />
+            </section>
+
+            <section className="mt-6">
+              <form
+                className="flex flex-wrap items-center gap-2 mb-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (query.trim() === search) load();
+                  else setSearch(query.trim());
+                }}
+              >
+                <input
+                  className="px-3 py-1.5 text-sm rounded border border-white/10 bg-white/10 placeholder:text-slate-400 text-white"
+                  placeholder="Search text…"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                />
+                <select
+                  className="px-3 py-1.5 text-sm rounded border border-white/10 bg-white/10 text-white"
+                  value={tag}
+                  onChange={(e) => setTag(e.target.value)}
+                  aria-label="Tag"
+                >
+                  <option value="" className="bg-[#0f172a]">All tags</option>
+                  {tags.map((t) => (
+                    <option key={t} value={t} className="bg-[#0f172a]">
+                      {t}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="px-3 py-1.5 text-sm rounded border border-white/10 bg-white/10 text-white"
+                  value={difficulty}
+                  onChange={(e) => setDifficulty(e.target.value as Difficulty | "")}
+                  aria-label="Difficulty"
+                >
+                  <option value="" className="bg-[#0f172a]">Any difficulty</option>
+                  {DIFFICULTIES.map((d) => (
+                    <option key={d} value={d} className="bg-[#0f172a]">
+                      {d}
+                    </option>
+                  ))}
+                </select>
+                <button className="px-3 py-1.5 rounded bg-slate-800 text-white text-sm">Search</button>
+                <span className="text-sm text-slate-400 ml-auto">{questions.length} questions</span>
+              </form>
+
+              {!loading && !questions.length ? (
+                <p className="text-slate-400">No questions match.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {questions.map((q) =>
+                    editingId === q.id ? (
+                      <li key={q.id} className="p-3 rounded border border-sky-500/40 bg-white/5">
+                        <QuestionForm
+                          withMeta
+                          question={q}
+                          save={(input, meta) => api.bank.update(q.id, { ...input, ...meta })}
+                          onSaved={(saved) => {
+                            setQuestions((prev) => prev.map((x) => (x.id === saved.id ? saved : x)));
+                            mergeTags(saved.tags);
+                            setEditingId(null);
+                          }}
+                          onCancel={() => setEditingId(null)}
+                        />
+                      </li>
+                    ) : (
+                      <li key={q.id} className="p-3 rounded border border-white/10 bg-white/5 flex items-start gap-3">
+                        <div className="flex-1 space-y-1">
+                          <RichText text={q.text} />
+                          <div>
+                            <span className="px-1.5 py-0.5 text-xs rounded bg-white/10 text-slate-300">
+                              {questionTypeLabel(q.type)}
+                            </span>{" "}
+                            <span className={`px-1.5 py-0.5 text-xs rounded ${DIFFICULTY_STYLES[q.difficulty]}`}>
+                              {q.difficulty}
+                            </span>
+                          </div>
+                          <div className="text-sm text-slate-300">Correct: {describeCorrect(q) ?? "—"}</div>
+                          {q.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {q.tags.map((t) => (
+                                <button
+                                  key={t}
+                                  className="px-1.5 py-0.5 text-xs rounded bg-sky-500/15 text-sky-300 hover:bg-sky-500/25"
+                                  onClick={() => setTag(t)}
+                                  title="Filter by this tag"
+                                >
+                                  #{t}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex gap-1">
+                          <button
+                            className="px-2 py-1 text-sm rounded bg-amber-500/20 text-amber-200 border border-amber-500/30"
+                            onClick={() => setEditingId(q.id)}
+                          >
+                            Edit
+                          </button>
+                          <button
+                            className="px-2 py-1 text-sm rounded bg-rose-500/20 text-rose-200 border border-rose-500/30"
+                            onClick={() => remove(q)}
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </li>
+                    )
+                  )}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
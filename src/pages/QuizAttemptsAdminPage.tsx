@@ -1,37 +1,18 @@
 import { useEffect, useState, useCallback, useRef } from "react";
-import { Link, useParams, useNavigate } from "react-router-dom";
+import { Link, useParams } from "react-router-dom";
 import PageLoader from "../components/PageLoader";
 import InlineAlert from "../components/InLineAlerts";
-
-const API = import.meta.env.VITE_API_URL ?? "http://localhost:3000";
-
-function authHeaders() {
-  const token = localStorage.getItem("token") ?? "";
-  return {
-    "Content-Type": "application/json",
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-  };
-}
-
-type Row = {
-  id: number;
-  quizId: number;
-  studentId: number;
-  student?: { id: number; email: string };
-  score?: number;
-  total?: number;
-  startedAt?: string;
-  submittedAt?: string | null;
-};
+import { api, errorMessage, isAbortError, isUnauthorized, type QuizAttemptRow } from "../api";
+import { DEFAULT_PASS_MARK, fmtPoints, isPassing, scorePercent } from "../utils/scoring";
 
 export default function QuizAttemptsAdminPage() {
   const { quizId } = useParams();
-  const nav = useNavigate();
 
-  const [rows, setRows] = useState<Row[]>([]);
+  const [rows, setRows] = useState<QuizAttemptRow[]>([]);
   const [total, setTotal] = useState(0);
   const [page, setPage] = useState(1);
   const [pageSize] = useState(10);
+  const [passMark, setPassMark] = useState(DEFAULT_PASS_MARK);
 
   const [loading, setLoading] = useState(false);
   const [err, setErr] = useState("");
@@ -51,36 +32,23 @@ export default function QuizAttemptsAdminPage() {
     abortRef.current = ctrl;
 
     try {
-      const res = await fetch(
-        `${API}/quiz/${quizId}/attempts?page=${page}&limit=${pageSize}`,
-        { headers: authHeaders(), signal: ctrl.signal }
-      );
-
-      if (res.status === 401) {
-        localStorage.removeItem("token");
-        localStorage.removeItem("user");
-        nav("/login", { replace: true });
-        return;
-      }
-
-      if (!res.ok) {
-        let message = `HTTP ${res.status}`;
-        try {
-          message = (await res.json())?.message ?? message;
-        } catch {}
-        throw new Error(message);
-      }
-
-      const data = await res.json();
-      setRows(data.items ?? []);
-      setTotal(data.total ?? 0);
-    } catch (e: any) {
-      if (e?.name !== "AbortError")
-        setErr(e?.message || "Failed to load attempts");
+      const [data, quiz] = await Promise.all([
+        api.attempts.list(Number(quizId), page, pageSize, {
+          signal: ctrl.signal,
+        }),
+        // Only needed for the pass/fail colouring; rows still show without it.
+        api.quiz.get(Number(quizId), { signal: ctrl.signal }).catch(() => null),
+      ]);
+      setRows(data.items);
+      setPassMark(quiz?.passMark ?? DEFAULT_PASS_MARK);
+      setTotal(data.total);
+    } catch (e) {
+      if (!isAbortError(e) && !isUnauthorized(e))
+        setErr(errorMessage(e, "Failed to load attempts"));
     } finally {
       setLoading(false);
     }
-  }, [quizId, page, pageSize, nav]);
+  }, [quizId, page, pageSize]);
 
   useEffect(() => {
     load();
@@ -96,6 +64,7 @@ export default function QuizAttemptsAdminPage() {
       <h1 className="text-2xl font-semibold text-white">
         Quiz Attempts (Quiz #{quizId})
       </h1>
+      <p className="text-slate-400 text-sm">Scores are points earned out of points possible. Pass mark {passMark}%.</p>
 
       {err && <InlineAlert type="error" onRetry={load}>{err}</InlineAlert>}
 
@@ -122,14 +91,32 @@ export default function QuizAttemptsAdminPage() {
                     key={r.id}
                     className="border-t border-slate-700 hover:bg-slate-700/40"
                   >
-                    <td className="p-3">{r.student?.email ?? r.studentId}</td>
+                    <td className="p-3">
+                      {r.student?.email ?? r.studentId}
+                      {!!r.eventCount && (
+                        <span
+                          className="ml-2 px-1.5 py-0.5 text-xs rounded bg-amber-500/20 text-amber-300"
+                          title="Proctoring events were logged; see the attempt's timeline"
+                        >
+                          ⚑ {r.eventCount}
+                        </span>
+                      )}
+                    </td>
                     <td className="p-3">
                       {typeof r.score === "number" &&
-                      typeof r.total === "number"
-                        ? `${r.score}/${r.total} (${Math.round(
-                            (r.score / Math.max(1, r.total)) * 100
-                          )}%)`
-                        : "—"}
+                      typeof r.total === "number" ? (
+                        <span
+                          className={
+                            isPassing({ score: r.score, total: r.total, passed: r.passed }, passMark)
+                              ? "text-emerald-300"
+                              : "text-rose-300"
+                          }
+                        >
+                          {fmtPoints(r.score)}/{fmtPoints(r.total)} ({scorePercent(r.score, r.total)}%)
+                        </span>
+                      ) : (
+                        "—"
+                      )}
                     </td>
                     <td className="p-3">
                       {r.startedAt
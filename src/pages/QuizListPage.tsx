@@ -3,27 +3,14 @@ import { useNavigate } from "react-router-dom";
 
 import PageLoader from "../components/PageLoader";
 import InlineAlert from "../components/InLineAlerts";
-
-const API = import.meta.env.VITE_API_URL ?? "http://localhost:3000";
-
-function authHeaders() {
-  const token = localStorage.getItem("token") ?? "";
-  return {
-    "Content-Type": "application/json",
-    Authorization: `Bearer ${token}`,
-  };
-}
-
-type Quiz = {
-  id: number;
-  title: string;
-  description?: string;
-  createdAt?: string;
-  createdBy?: { id: number; email: string };
-};
+import QuizAvailability from "../components/QuizAvailability";
+import StartAttemptButton from "../components/StartAttemptButton";
+import { api, errorMessage, isAbortError, isMissingRoute, isUnauthorized, type Quiz, type StudentAttempt } from "../api";
+import { isListed } from "../utils/quizStatus";
 
 export default function QuizListPage() {
   const [quizzes, setQuizzes] = useState<Quiz[]>([]);
+  const [attempts, setAttempts] = useState<StudentAttempt[]>([]);
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState("");
   const [taking, setTaking] = useState<number | null>(null);
@@ -33,48 +20,33 @@ export default function QuizListPage() {
     setLoading(true);
     setErr("");
     try {
-      const res = await fetch(`${API}/quiz/all`, { headers: authHeaders(), signal });
-      if (res.status === 401) {
-        localStorage.removeItem("token");
-        localStorage.removeItem("user");
-        nav("/login", { replace: true });
-        return;
-      }
-      if (!res.ok) {
-        const j = await res.json().catch(() => ({}));
-        throw new Error(j?.message || "Failed to fetch quizzes");
-      }
-      const data = (await res.json()) as Quiz[];
-      setQuizzes(Array.isArray(data) ? data : []);
-    } catch (e: any) {
-      if (e?.name !== "AbortError") setErr(e?.message || "Error loading quizzes");
+      const [all, mine] = await Promise.all([
+        api.quiz.all({ signal }),
+        // Only used to explain limits up front; starting still works without it.
+        api.attempts.mine({ signal }).catch((e) => {
+          if (isMissingRoute(e)) return [];
+          throw e;
+        }),
+      ]);
+      setQuizzes(all.filter((q) => isListed(q)));
+      setAttempts(mine);
+    } catch (e) {
+      if (!isAbortError(e) && !isUnauthorized(e)) setErr(errorMessage(e, "Error loading quizzes"));
     } finally {
       setLoading(false);
     }
   }
 
-  async function startAttempt(quizId: number) {
+  async function startAttempt(quizId: number, accessCode?: string) {
     setErr("");
     try {
       setTaking(quizId);
-      const res = await fetch(`${API}/quiz/${quizId}/attempts`, {
-        method: "POST",
-        headers: authHeaders(),
-      });
-      if (res.status === 401) {
-        localStorage.removeItem("token");
-        localStorage.removeItem("user");
-        nav("/login", { replace: true });
-        return;
-      }
-      if (!res.ok) {
-        const j = await res.json().catch(() => ({}));
-        throw new Error(j?.message || "Could not start attempt");
-      }
-      const attempt = await res.json();
+      const attempt = await api.attempts.start(quizId, accessCode);
       nav(`/quiz/${quizId}/attempts/${attempt.id}`);
-    } catch (e: any) {
-      setErr(e?.message || "Could not start attempt");
+    } catch (e) {
+      // A rejected code is shown in the code dialog instead.
+      if (accessCode !== undefined && !isUnauthorized(e)) throw e;
+      if (!isUnauthorized(e)) setErr(errorMessage(e, "Could not start attempt"));
     } finally {
       setTaking(null);
     }
@@ -124,7 +96,9 @@ export default function QuizListPage() {
                   className="flex items-center justify-between p-3 rounded-lg border border-white/10 bg-white/5"
                 >
                   <div>
-                    <div className="font-medium">{q.title}</div>
+                    <div className="font-medium">
+                      {q.title} <QuizAvailability quiz={q} />
+                    </div>
                     <div className="text-sm text-slate-400">
                       {q.description || "—"}
                     </div>
@@ -136,13 +110,13 @@ export default function QuizListPage() {
                     </div>
                   </div>
 
-                  <button
-                    onClick={() => startAttempt(q.id)}
+                  <StartAttemptButton
+                    quiz={q}
+                    attempts={attempts}
+                    starting={taking === q.id}
+                    onStart={(code) => startAttempt(q.id, code)}
                     className="px-3 py-1 bg-sky-600 hover:bg-sky-500 text-white rounded text-sm disabled:opacity-60"
-                    disabled={taking === q.id}
-                  >
-                    {taking === q.id ? "Starting…" : "Take Quiz"}
-                  </button>
+                  />
                 </li>
               ))}
             </ul>
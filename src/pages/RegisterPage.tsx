@@ -1,7 +1,6 @@
 import { type FormEvent, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
-
-const API = import.meta.env.VITE_API_URL ?? "http://localhost:3000";
+import { api, errorMessage } from "../api";
 
 export default function RegisterPage() {
   const nav = useNavigate();
@@ -16,18 +15,10 @@ export default function RegisterPage() {
     try {
       setLoading(true);
       setErr("");
-      const res = await fetch(`${API}/users/register`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name, email, password, role: "STUDENT" }),
-      });
-      if (!res.ok) {
-        const j = await res.json().catch(() => ({}));
-        throw new Error(j?.message || `HTTP ${res.status}`);
-      }
+      await api.auth.register({ name, email, password, role: "STUDENT" });
       nav("/login");
-    } catch (e: any) {
-      setErr(e.message || "Registration failed");
+    } catch (e) {
+      setErr(errorMessage(e, "Registration failed"));
     } finally {
       setLoading(false);
     }
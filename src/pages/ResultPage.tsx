@@ -1,38 +1,30 @@
 import { useEffect, useState, useCallback, useRef } from "react";
-import { Link, useNavigate, useParams } from "react-router-dom";
+import { Link, useParams } from "react-router-dom";
 import PageLoader from "../components/PageLoader";
 import InlineAlert from "../components/InLineAlerts";
+import AnswerExplanation from "../components/AnswerExplanation";
+import AnswerReview from "../components/AnswerReview";
+import QuestionMedia from "../components/QuestionMedia";
+import RichText from "../components/RichText";
+import { api, errorMessage, isAbortError, type AttemptResult, type Question, type Quiz } from "../api";
+import { feedbackPendingNote, feedbackReleased } from "../utils/feedback";
+import { elapsedBetween, fmtDuration } from "../utils/time";
+import {
+  DEFAULT_PASS_MARK,
+  answerVerdict,
+  fmtAnswerPoints,
+  fmtPoints,
+  isPassing,
+  scorePercent,
+} from "../utils/scoring";
 
-type Answer = {
-  questionId: number;
-  selectedOptionIndex: number;
-  isCorrect: boolean;
-};
-
-type Result = {
-  attemptId: number;
-  quizId: number;
-  studentId: number;
-  score: number;
-  total: number;
-  answers: Answer[];
-  startedAt: string;
-};
-
-const API = import.meta.env.VITE_API_URL || "http://localhost:3000";
-
-function authHeaders() {
-  const token = localStorage.getItem("token") ?? "";
-  return {
-    "Content-Type": "application/json",
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-  };
-}
+const VERDICT_STYLES = { correct: "text-emerald-400", partial: "text-amber-400", wrong: "text-red-400" };
 
 export default function ResultPage() {
   const { quizId, attemptId } = useParams();
-  const nav = useNavigate();
-  const [data, setData] = useState<Result | null>(null);
+  const [data, setData] = useState<AttemptResult | null>(null);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
   const [err, setErr] = useState("");
   const [loading, setLoading] = useState(true);
   const abortRef = useRef<AbortController | null>(null);
@@ -50,43 +42,36 @@ export default function ResultPage() {
     abortRef.current = ctrl;
 
     try {
-      const res = await fetch(
-        `${API}/quiz/${quizId}/attempts/${attemptId}/result`,
-        { headers: authHeaders(), signal: ctrl.signal }
-      );
-      if (!res.ok) {
-        let message = `HTTP ${res.status}`;
-        try {
-          const j = await res.json();
-          message = j?.message ?? message;
-        } catch {
-          const t = await res.text().catch(() => "");
-          if (t) message = t;
-        }
-        if (res.status === 401) {
-          nav("/login", { replace: true });
-        }
-        throw new Error(message);
-      }
-      const json: Result = await res.json();
+      // Questions and quiz settings only add to the review, so the result still shows without them.
+      const [json, qs, settings] = await Promise.all([
+        api.attempts.result(Number(quizId), Number(attemptId), {
+          signal: ctrl.signal,
+        }),
+        api.attempts.questions(Number(quizId), Number(attemptId), { signal: ctrl.signal }).catch(() => []),
+        api.quiz.get(Number(quizId), { signal: ctrl.signal }).catch(() => null),
+      ]);
       setData(json);
-    } catch (e: any) {
-      if (e?.name !== "AbortError") {
-        setErr(e?.message ?? "Failed to load result");
+      setQuestions(qs);
+      setQuiz(settings);
+    } catch (e) {
+      if (!isAbortError(e)) {
+        setErr(errorMessage(e, "Failed to load result"));
         setData(null);
       }
     } finally {
       setLoading(false);
     }
-  }, [quizId, attemptId, nav]);
+  }, [quizId, attemptId]);
 
   useEffect(() => {
     load();
     return () => abortRef.current?.abort();
   }, [load]);
 
-  const pct =
-    data && data.total > 0 ? Math.round((data.score / data.total) * 100) : 0;
+  const pct = data ? scorePercent(data.score, data.total) : 0;
+  const passed = data ? isPassing(data) : false;
+  const timeTaken = elapsedBetween(data?.startedAt, data?.submittedAt);
+  const released = feedbackReleased(quiz);
 
   return (
     <div className="max-w-[800px] mx-auto px-4 py-6 space-y-4 text-slate-200">
@@ -106,48 +91,56 @@ export default function ResultPage() {
             <div>
               <div className="text-slate-400 text-sm">
                 Attempt {data.attemptId} • Quiz {data.quizId}
+                {timeTaken !== null && <> • Time taken {fmtDuration(timeTaken)}</>}
               </div>
               <div className="text-lg font-semibold text-white">
-                Score: {data.score} / {data.total}{" "}
+                Score: {fmtPoints(data.score)} / {fmtPoints(data.total)} points{" "}
                 <span className="text-slate-400 font-normal">({pct}%)</span>
               </div>
+              <div className="text-slate-400 text-sm">Pass mark {data.passMark ?? DEFAULT_PASS_MARK}%</div>
             </div>
             <div>
               <span
                 className={`px-2 py-1 rounded text-sm ${
-                  pct >= 50
+                  passed
                     ? "bg-emerald-200 text-emerald-900"
                     : "bg-red-200 text-red-900"
                 }`}
               >
-                {pct >= 50 ? "Pass" : "Needs Improvement"}
+                {passed ? "Pass" : "Needs Improvement"}
               </span>
             </div>
           </div>
 
           <section className="space-y-2">
+            {quiz?.mode === "practice" && (
+              <InlineAlert type="info">Practice run — this score isn't recorded in your grades.</InlineAlert>
+            )}
             <h3 className="text-lg font-semibold text-white mt-2">Answers</h3>
+            {!released && quiz && <InlineAlert type="info">{feedbackPendingNote(quiz)}</InlineAlert>}
             <ul className="space-y-2">
-              {data.answers.map((a, i) => (
-                <li
-                  key={`${a.questionId}-${i}`}
-                  className="p-3 rounded border border-slate-700 bg-slate-900 flex items-center justify-between"
-                >
-                  <div className="text-sm text-slate-200">
-                    <span className="font-medium">Q{a.questionId}</span>{" "}
-                    <span className="text-slate-400">
-                      • selected option {a.selectedOptionIndex}
-                    </span>
-                  </div>
-                  <div
-                    className={
-                      a.isCorrect ? "text-emerald-400" : "text-red-400"
-                    }
+              {data.answers.map((a, i) => {
+                const q = questions.find((x) => x.id === a.questionId);
+                const verdict = answerVerdict(a);
+                return (
+                  <li
+                    key={`${a.questionId}-${i}`}
+                    className="p-3 rounded border border-slate-700 bg-slate-900 flex items-start justify-between gap-3"
                   >
-                    {a.isCorrect ? "correct" : "wrong"}
-                  </div>
-                </li>
-              ))}
+                    <div className="text-sm text-slate-200 space-y-2 min-w-0">
+                      <div className="font-medium">Q{a.questionId}</div>
+                      {q && <RichText text={q.text} className="text-slate-300" />}
+                      <QuestionMedia attachments={q?.attachments} />
+                      <AnswerReview question={q} answer={a} correctAnswer={a.correctAnswer} hideKey={!released} />
+                      {released && <AnswerExplanation question={q} answer={a} result={a} />}
+                    </div>
+                    <div className={`text-right whitespace-nowrap ${VERDICT_STYLES[verdict]}`}>
+                      {verdict}
+                      <div className="text-xs text-slate-400">{fmtAnswerPoints(a)}</div>
+                    </div>
+                  </li>
+                );
+              })}
             </ul>
           </section>
 
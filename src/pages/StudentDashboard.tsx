@@ -1,139 +1,81 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import PageLoader from "../components/PageLoader";
 import InlineAlert from "../components/InLineAlerts";
+import QuizAvailability from "../components/QuizAvailability";
+import StartAttemptButton from "../components/StartAttemptButton";
 import { useAuth } from "../auth/AuthContext";
-
-const API = import.meta.env.VITE_API_URL ?? "http://localhost:3000";
-
-function authHeaders() {
-  const token = localStorage.getItem("token") ?? "";
-  return {
-    "Content-Type": "application/json",
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-  };
-}
-
-type Quiz = { id: number; title: string; description?: string; createdAt?: string };
-
-type AttemptRow = {
-  id: number;
-  quizId: number;
-  quizTitle: string;
-  score: number;
-  total: number;
-  startedAt: string;
-};
+import {
+  api,
+  errorMessage,
+  isMissingRoute,
+  isUnauthorized,
+  type Course,
+  type Quiz,
+  type StudentAttempt,
+} from "../api";
+import { courseName, groupByCourse } from "../utils/courses";
+import { isListed } from "../utils/quizStatus";
+import { SCORING_POLICIES, countedScore, isPracticeAttempt } from "../utils/attemptPolicy";
+import { DEFAULT_PASS_MARK, fmtPoints, isPassing } from "../utils/scoring";
 
 export default function StudentDashboard() {
   const nav = useNavigate();
   const { user } = useAuth();
   const [quizzes, setQuizzes] = useState<Quiz[]>([]);
-  const [attempts, setAttempts] = useState<AttemptRow[]>([]);
+  const [attempts, setAttempts] = useState<StudentAttempt[]>([]);
+  /** Empty on backends without courses; everything is then listed flat. */
+  const [courses, setCourses] = useState<Course[]>([]);
   const [loading, setLoading] = useState(true);
   const [attemptsMissingAPI, setAttemptsMissingAPI] = useState(false);
   const [err, setErr] = useState("");
   const [taking, setTaking] = useState<number | null>(null);
 
-  async function getJSON<T>(path: string): Promise<T> {
-    const res = await fetch(`${API}${path}`, { headers: authHeaders() });
-    if (res.status === 401) {
-      localStorage.removeItem("token");
-      localStorage.removeItem("user");
-      nav("/login", { replace: true });
-      throw new Error("Unauthorized");
-    }
-    if (!res.ok) {
-      const j = await res.json().catch(() => ({}));
-      const errorObj: any = new Error(j?.message || `GET ${path} failed`);
-      errorObj.status = res.status;
-      throw errorObj;
-    }
-    return res.json() as Promise<T>;
-  }
-
-  async function postJSON<T>(path: string, body?: any): Promise<T> {
-    const res = await fetch(`${API}${path}`, {
-      method: "POST",
-      headers: authHeaders(),
-      body: body ? JSON.stringify(body) : undefined,
-    });
-    if (res.status === 401) {
-      localStorage.removeItem("token");
-      localStorage.removeItem("user");
-      nav("/login", { replace: true });
-      throw new Error("Unauthorized");
-    }
-    if (!res.ok) {
-      const j = await res.json().catch(() => ({}));
-      throw new Error(j?.message || `POST ${path} failed`);
-    }
-    return res.json() as Promise<T>;
-  }
-
-  function normalizeAttempts(raw: any): AttemptRow[] {
-    if (!raw) return [];
-    if (Array.isArray(raw) && raw[0]?.quiz) {
-      return raw.map((a: any) => ({
-        id: a.id,
-        quizId: a.quiz.id,
-        quizTitle: a.quiz.title,
-        score: a.score,
-        total: a.total,
-        startedAt: a.startedAt,
-      }));
-    }
-    if (Array.isArray(raw) && (raw[0]?.quizId || raw[0]?.quizTitle)) {
-      return raw.map((a: any) => ({
-        id: a.id,
-        quizId: a.quizId,
-        quizTitle: a.quizTitle,
-        score: a.score,
-        total: a.total,
-        startedAt: a.startedAt,
-      }));
-    }
-    if (Array.isArray(raw?.data)) return normalizeAttempts(raw.data);
-    return [];
-  }
-
   async function loadData() {
     setLoading(true);
     setErr("");
     setAttemptsMissingAPI(false);
     try {
-      const allQuizzes = await getJSON<Quiz[]>("/quiz/all");
+      const [allQuizzes, myCourses] = await Promise.all([
+        api.quiz.all(),
+        api.courses.list().catch((e) => {
+          if (isMissingRoute(e)) return [];
+          throw e;
+        }),
+      ]);
       setQuizzes(allQuizzes);
-    } catch (e: any) {
-      if (e?.message !== "Unauthorized") {
-        setErr(e.message || "Failed to load quizzes");
+      setCourses(myCourses);
+    } catch (e) {
+      if (!isUnauthorized(e)) {
+        setErr(errorMessage(e, "Failed to load quizzes"));
       }
     } finally {
       setLoading(false);
     }
 
     try {
-      const raw = await getJSON<any>("/quiz/student/attempts");
-      setAttempts(normalizeAttempts(raw));
-    } catch (e: any) {
-      if (e?.status === 404 || e?.status === 501) {
+      setAttempts(await api.attempts.mine());
+    } catch (e) {
+      if (isMissingRoute(e)) {
         setAttemptsMissingAPI(true);
         setAttempts([]);
-      } else if (e?.message !== "Unauthorized") {
-        setErr(e.message || "Failed to load attempts");
+      } else if (!isUnauthorized(e)) {
+        setErr(errorMessage(e, "Failed to load attempts"));
       }
     }
   }
 
-  async function startAttempt(quizId: number) {
+  async function startAttempt(quizId: number, accessCode?: string) {
     setErr("");
     try {
       setTaking(quizId);
-      const attempt = await postJSON<{ id: number }>(`/quiz/${quizId}/attempts`);
+      const attempt = await api.attempts.start(quizId, accessCode);
       nav(`/quiz/${quizId}/attempts/${attempt.id}`);
-    } catch (e: any) {
-      if (e?.message !== "Unauthorized") {
-        setErr(e.message || "Could not start attempt");
+    } catch (e) {
+      // A rejected code is shown in the code dialog instead.
+      if (accessCode !== undefined && !isUnauthorized(e)) throw e;
+      if (!isUnauthorized(e)) {
+        setErr(errorMessage(e, "Could not start attempt"));
       }
     } finally {
       setTaking(null);
@@ -144,6 +86,30 @@ export default function StudentDashboard() {
     loadData();
   }, []);
 
+  // Closed quizzes drop out of the list but keep their settings for scoring.
+  const listed = quizzes.filter((q) => isListed(q));
+  const passMarkOf = (quizId: number) => quizzes.find((q) => q.id === quizId)?.passMark ?? DEFAULT_PASS_MARK;
+  const graded = attempts.filter((a) => !isPracticeAttempt(a, quizzes));
+  const practiceRuns = attempts.filter((a) => isPracticeAttempt(a, quizzes));
+  const scores = useMemo(() => {
+    const byQuiz = new Map<number, StudentAttempt[]>();
+    attempts
+      .filter((a) => !isPracticeAttempt(a, quizzes))
+      .forEach((a) => byQuiz.set(a.quizId, [...(byQuiz.get(a.quizId) ?? []), a]));
+    return [...byQuiz].map(([quizId, list]) => {
+      const quiz = quizzes.find((q) => q.id === quizId);
+      const policy = quiz?.scoringPolicy ?? "best";
+      const counted = countedScore(policy, list);
+      const passed = !!counted && counted.ratio * 100 >= (quiz?.passMark ?? DEFAULT_PASS_MARK);
+      return { quizId, title: list[0].quizTitle, policy, counted, passed };
+    });
+  }, [attempts, quizzes]);
+
+  const grouped = courses.length > 0;
+  const courseOfQuiz = (quizId: number) => quizzes.find((q) => q.id === quizId)?.courseId;
+  const quizGroups = groupByCourse(listed, (q) => q.courseId, courses);
+  const attemptGroups = groupByCourse(graded, (a) => courseOfQuiz(a.quizId), courses);
+
   return (
     <div className="min-h-screen bg-[#0b1220] text-white">
       <PageLoader show={loading || taking !== null} />
@@ -178,29 +144,37 @@ export default function StudentDashboard() {
 
           {loading ? (
             <p className="text-slate-400">Loading…</p>
-          ) : quizzes.length ? (
-            <ul className="space-y-2">
-              {quizzes.map((q) => (
-                <li
-                  key={q.id}
-                  className="flex items-center justify-between p-4 rounded-xl border border-white/10 bg-white/5"
-                >
-                  <div>
-                    <div className="font-medium">{q.title}</div>
-                    <div className="text-sm text-slate-400">
-                      {q.description || "—"}
-                    </div>
-                  </div>
-                  <button
-                    className="px-3 py-1 bg-sky-600 hover:bg-sky-500 text-white rounded disabled:opacity-60"
-                    onClick={() => startAttempt(q.id)}
-                    disabled={taking === q.id}
-                  >
-                    {taking === q.id ? "Starting…" : "Take Quiz"}
-                  </button>
-                </li>
+          ) : listed.length ? (
+            <div className="space-y-4">
+              {quizGroups.map((g) => (
+                <div key={g.course?.id ?? "none"}>
+                  {grouped && <CourseHeading course={g.course} />}
+                  <ul className="space-y-2">
+                    {g.items.map((q) => (
+                      <li
+                        key={q.id}
+                        className="flex items-center justify-between p-4 rounded-xl border border-white/10 bg-white/5"
+                      >
+                        <div>
+                          <div className="font-medium">
+                            {q.title} <QuizAvailability quiz={q} />
+                          </div>
+                          <div className="text-sm text-slate-400">
+                            {q.description || "—"}
+                          </div>
+                        </div>
+                        <StartAttemptButton
+                          quiz={q}
+                          attempts={attempts}
+                          starting={taking === q.id}
+                          onStart={(code) => startAttempt(q.id, code)}
+                        />
+                      </li>
+                    ))}
+                  </ul>
+                </div>
               ))}
-            </ul>
+            </div>
           ) : (
             <p className="text-slate-400">No quizzes available.</p>
           )}
@@ -216,55 +190,144 @@ export default function StudentDashboard() {
             </p>
           )}
 
-          {!attemptsMissingAPI && attempts.length === 0 && (
+          {!attemptsMissingAPI && graded.length === 0 && (
             <p className="text-slate-400">No attempts yet.</p>
           )}
 
-          {attempts.length > 0 && (
-            <div className="overflow-hidden rounded-xl border border-white/10">
-              <table className="min-w-full divide-y divide-white/10">
-                <thead className="bg-white/5 text-slate-300">
-                  <tr>
-                    <th className="px-4 py-2 text-left font-medium">Quiz</th>
-                    <th className="px-4 py-2 font-medium">Score</th>
-                    <th className="px-4 py-2 font-medium">Date</th>
-                    <th className="px-4 py-2 font-medium">Action</th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-white/10">
-                  {attempts.map((a) => (
-                    <tr key={a.id} className="hover:bg-white/5">
-                      <td className="px-4 py-2">{a.quizTitle}</td>
-                      <td className="px-4 py-2 text-center">
-                        <span
-                          className={`px-2 py-1 text-xs rounded ${
-                            a.score / a.total >= 0.5
-                              ? "bg-emerald-500/20 text-emerald-300"
-                              : "bg-rose-500/20 text-rose-300"
-                          }`}
-                        >
-                          {a.score}/{a.total}
-                        </span>
-                      </td>
-                      <td className="px-4 py-2 text-center text-slate-300">
-                        {new Date(a.startedAt).toLocaleDateString()}
-                      </td>
-                      <td className="px-4 py-2 text-center">
-                        <Link
-                          to={`/quiz/${a.quizId}/attempts/${a.id}/result`}
-                          className="text-sky-300 hover:underline"
-                        >
-                          View Result
-                        </Link>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
-          )}
+          <div className="space-y-6">
+            {attemptGroups.map((g) => {
+              const groupScores = scores.filter((s) => g.items.some((a) => a.quizId === s.quizId));
+              return (
+                <div key={g.course?.id ?? "none"} className="space-y-3">
+                  {grouped && <CourseHeading course={g.course} />}
+                  <ul className="grid sm:grid-cols-2 gap-2">
+                    {groupScores.map((s) => (
+                      <li
+                        key={s.quizId}
+                        className="flex items-center justify-between p-3 rounded-xl border border-white/10 bg-white/5"
+                      >
+                        <div>
+                          <div className="font-medium">{s.title}</div>
+                          <div className="text-xs text-slate-400">
+                            {SCORING_POLICIES.find((p) => p.value === s.policy)?.label} counts
+                            {s.counted ? ` • ${s.counted.attempts} finished` : ""}
+                          </div>
+                        </div>
+                        {s.counted ? (
+                          <span
+                            className={`px-2 py-1 text-xs rounded ${
+                              s.passed
+                                ? "bg-emerald-500/20 text-emerald-300"
+                                : "bg-rose-500/20 text-rose-300"
+                            }`}
+                          >
+                            {s.counted.label}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-slate-400">Not finished yet</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  <AttemptTable attempts={g.items} passMarkOf={passMarkOf} />
+                </div>
+              );
+            })}
+          </div>
         </section>
+
+        {practiceRuns.length > 0 && (
+          <section className="p-4 rounded-2xl border border-white/10 bg-white/5">
+            <h2 className="text-lg font-semibold mb-1">Practice History</h2>
+            <p className="text-sm text-slate-400 mb-3">Practice runs don't count toward your grades.</p>
+            <AttemptTable attempts={practiceRuns} />
+          </section>
+        )}
       </div>
     </div>
   );
 }
+
+/** Group title in the quiz and attempt lists. */
+function CourseHeading({ course }: { course: Course | null }) {
+  return (
+    <h3 className="mb-2 text-sm font-medium text-slate-300">
+      {course ? (
+        <Link to={`/courses/${course.id}`} className="hover:underline">
+          {courseName(course)}
+        </Link>
+      ) : (
+        "Other quizzes"
+      )}
+    </h3>
+  );
+}
+
+type AttemptTableProps = {
+  attempts: StudentAttempt[];
+  /** Colors scores by pass/fail; left out for practice runs, which aren't graded. */
+  passMarkOf?: (quizId: number) => number;
+};
+
+function AttemptTable({ attempts, passMarkOf }: AttemptTableProps) {
+  return (
+    <div className="overflow-hidden rounded-xl border border-white/10">
+      <table className="min-w-full divide-y divide-white/10">
+        <thead className="bg-white/5 text-slate-300">
+          <tr>
+            <th className="px-4 py-2 text-left font-medium">Quiz</th>
+            <th className="px-4 py-2 font-medium">Score</th>
+            <th className="px-4 py-2 font-medium">Date</th>
+            <th className="px-4 py-2 font-medium">Action</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-white/10">
+          {attempts.map((a) => (
+            <tr key={a.id} className="hover:bg-white/5">
+              <td className="px-4 py-2">{a.quizTitle}</td>
+              <td className="px-4 py-2 text-center">
+                {a.submittedAt === null ? (
+                  <span className="px-2 py-1 text-xs rounded bg-amber-500/20 text-amber-300">
+                    In progress
+                  </span>
+                ) : (
+                  <span
+                    className={`px-2 py-1 text-xs rounded ${
+                      !passMarkOf
+                        ? "bg-white/10 text-slate-300"
+                        : isPassing(a, passMarkOf(a.quizId))
+                          ? "bg-emerald-500/20 text-emerald-300"
+                          : "bg-rose-500/20 text-rose-300"
+                    }`}
+                  >
+                    {fmtPoints(a.score)}/{fmtPoints(a.total)}
+                  </span>
+                )}
+              </td>
+              <td className="px-4 py-2 text-center text-slate-300">
+                {new Date(a.startedAt).toLocaleDateString()}
+              </td>
+              <td className="px-4 py-2 text-center">
+                {a.submittedAt === null ? (
+                  <Link
+                    to={`/quiz/${a.quizId}/attempts/${a.id}`}
+                    className="text-amber-300 hover:underline"
+                  >
+                    Resume
+                  </Link>
+                ) : (
+                  <Link
+                    to={`/quiz/${a.quizId}/attempts/${a.id}/result`}
+                    className="text-sky-300 hover:underline"
+                  >
+                    View Result
+                  </Link>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,95 +1,94 @@
 import { useEffect, useMemo, useRef, useState, useCallback } from "react";
-import { Link, useNavigate, useParams } from "react-router-dom";
+import { Link, useParams } from "react-router-dom";
 import PageLoader from "../components/PageLoader";
 import InlineAlert from "../components/InLineAlerts";
+import QuizCountdown from "../components/QuizCountdown";
+import AnswerSyncStatus from "../components/AnswerSyncStatus";
+import { useAttemptTimer } from "../hooks/useAttemptTimer";
+import { useAnswerQueue } from "../hooks/useAnswerQueue";
+import { useExamLockdown } from "../hooks/useExamLockdown";
+import { useProctoring } from "../hooks/useProctoring";
+import { enqueueAnswer, flushAnswers, listQueued } from "../api/answerQueue";
+import AnswerCheck from "../components/AnswerCheck";
+import FullscreenGate from "../components/FullscreenGate";
+import MonitoringNotice from "../components/MonitoringNotice";
+import QuestionAnswerInput from "../components/QuestionAnswerInput";
+import QuestionMedia from "../components/QuestionMedia";
+import RichText from "../components/RichText";
+import {
+  api,
+  errorMessage,
+  isAbortError,
+  isMissingRoute,
+  type AnswerFeedback,
+  type AnswerValue,
+  type AttemptResult,
+  type Question,
+} from "../api";
+import { isAutoChecked } from "../utils/feedback";
+import { acknowledgeMonitoring, monitoringAcknowledged } from "../utils/proctoring";
+import { describeAnswer, isAnswered } from "../utils/questions";
+import { answerVerdict, fmtAnswerPoints, fmtPoints, isPassing } from "../utils/scoring";
+import { orderQuestions, presentQuestion, type ShuffleSettings } from "../utils/shuffle";
 
-const API = import.meta.env.VITE_API_URL ?? "http://localhost:3000";
+/** Wait before submitting an expired attempt again after a failed try. */
+const AUTO_SUBMIT_RETRY_MS = 5_000;
 
-function authHeaders() {
-  const token = localStorage.getItem("token") ?? "";
-  return {
-    "Content-Type": "application/json",
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-  };
-}
-
-type Question = {
-  id: number;
-  text: string;
-  options: string[];
-  correctOptionIndex?: number;
+const VERDICTS = {
+  correct: { label: "Correct", className: "text-emerald-300" },
+  partial: { label: "Partly correct", className: "text-amber-300" },
+  wrong: { label: "Incorrect", className: "text-rose-300" },
 };
 
-type ResultPayload = {
-  attemptId: number;
-  quizId: number;
-  studentId: number;
-  score: number;
-  total: number;
-  answers: Array<{
-    questionId: number;
-    selectedOptionIndex: number;
-    isCorrect: boolean;
-  }>;
-  startedAt: string;
-};
+function without<T>(map: Record<number, T>, id: number) {
+  const next = { ...map };
+  delete next[id];
+  return next;
+}
 
 export default function TakeQuizPage() {
   const { quizId: quizIdParam, attemptId: attemptIdParam } = useParams();
   const quizId = Number(quizIdParam);
   const attemptId = Number(attemptIdParam);
-  const nav = useNavigate();
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState("");
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [shuffle, setShuffle] = useState<ShuffleSettings>({});
+  const [instantFeedback, setInstantFeedback] = useState(false);
+  const [practice, setPractice] = useState(false);
+  // Answers checked under immediate feedback are final, and the server rejects
+  // changes to them too, except in practice where a wrong answer can be retried.
+  const [checked, setChecked] = useState<Record<number, AnswerFeedback>>({});
+  const [checking, setChecking] = useState(false);
+  const [monitored, setMonitored] = useState(false);
+  const [acknowledged, setAcknowledged] = useState(() => monitoringAcknowledged(attemptId));
+  const [fullscreenExits, setFullscreenExits] = useState(0);
   const [current, setCurrent] = useState(0);
-  const [answers, setAnswers] = useState<Record<number, number | undefined>>({});
+  const [answers, setAnswers] = useState<Record<number, AnswerValue | undefined>>({});
   const [saving, setSaving] = useState(false);
-  const [finished, setFinished] = useState<ResultPayload | null>(null);
+  const [finished, setFinished] = useState<AttemptResult | null>(null);
+  const [autoSubmitted, setAutoSubmitted] = useState(false);
+  // Failed automatic submits so far; each one schedules another try.
+  const [autoSubmitFailures, setAutoSubmitFailures] = useState(0);
+  const autoSubmitting = useRef(false);
 
   const loadAbortRef = useRef<AbortController | null>(null);
-
-  const getJSON = useCallback(async <T,>(path: string, signal?: AbortSignal): Promise<T> => {
-    const res = await fetch(`${API}${path}`, { headers: authHeaders(), signal });
-    if (!res.ok) {
-      let message = `HTTP ${res.status}`;
-      try {
-        const j = await res.json();
-        message = j?.message ?? message;
-      } catch {
-        const t = await res.text().catch(() => "");
-        if (t) message = t;
-      }
-      if (res.status === 401) {
-        nav("/login", { replace: true });
-      }
-      throw new Error(message);
-    }
-    return res.json() as Promise<T>;
-  }, [nav]);
-
-  const postJSON = useCallback(async <T,>(path: string, body: any): Promise<T> => {
-    const res = await fetch(`${API}${path}`, {
-      method: "POST",
-      headers: authHeaders(),
-      body: JSON.stringify(body),
-    });
-    if (!res.ok) {
-      let message = `HTTP ${res.status}`;
-      try {
-        const j = await res.json();
-        message = j?.message ?? message;
-      } catch {
-        const t = await res.text().catch(() => "");
-        if (t) message = t;
-      }
-      if (res.status === 401) {
-        nav("/login", { replace: true });
-      }
-      throw new Error(message);
-    }
-    return res.json() as Promise<T>;
-  }, [nav]);
+  const timer = useAttemptTimer(quizId, attemptId);
+  const queue = useAnswerQueue(attemptId);
+  const record = useProctoring({
+    quizId,
+    attemptId,
+    enabled: monitored && acknowledged && !finished,
+    questionId: questions[current]?.id,
+  });
+  const lockdown = useExamLockdown({
+    enabled: monitored && acknowledged && !finished,
+    onExit: () => {
+      setFullscreenExits((n) => n + 1);
+      record("fullscreen_exit");
+    },
+    onEnter: () => record("fullscreen_enter"),
+  });
 
   const load = useCallback(async () => {
     if (!quizId || !attemptId) {
@@ -105,19 +104,48 @@ export default function TakeQuizPage() {
     loadAbortRef.current = ctrl;
 
     try {
-      const qs = await getJSON<Question[]>(`/quiz/${quizId}/questions`, ctrl.signal);
+      const [authored, quiz, progress, queued] = await Promise.all([
+        api.attempts.questions(quizId, attemptId, { signal: ctrl.signal }),
+        api.quiz.get(quizId, { signal: ctrl.signal }).catch((e) => {
+          if (isMissingRoute(e)) return null;
+          throw e;
+        }),
+        api.attempts.progress(quizId, attemptId, { signal: ctrl.signal }).catch((e) => {
+          if (isMissingRoute(e)) return null;
+          throw e;
+        }),
+        listQueued(attemptId),
+      ]);
+
+      const settings: ShuffleSettings = quiz ?? {};
+      const qs = orderQuestions(authored, attemptId, settings);
+
+      // Answers still in the local queue are newer than what the server holds.
+      const restored: Record<number, AnswerValue> = {};
+      progress?.answers.forEach((a) => (restored[a.questionId] = a));
+      queued.forEach((a) => (restored[a.questionId] = a.answer));
+
+      const last = qs.findIndex((q) => q.id === progress?.lastQuestionId);
+      const firstUnanswered = qs.findIndex((q) => !isAnswered(restored[q.id]));
+
       setQuestions(qs);
-      setCurrent(0);
-      setAnswers({});
-      setFinished(null);
-    } catch (e: any) {
-      if (e?.name !== "AbortError") {
-        setErr(e?.message || "Failed to load quiz");
+      setShuffle(settings);
+      setInstantFeedback(quiz?.feedbackTiming === "immediate" || quiz?.mode === "practice");
+      setPractice(quiz?.mode === "practice");
+      setMonitored(!!quiz?.monitored);
+      setCurrent(last >= 0 ? last : Math.max(0, firstUnanswered));
+      setAnswers(restored);
+      setFinished(
+        progress?.submittedAt ? await api.attempts.result(quizId, attemptId, { signal: ctrl.signal }) : null
+      );
+    } catch (e) {
+      if (!isAbortError(e)) {
+        setErr(errorMessage(e, "Failed to load quiz"));
       }
     } finally {
       setLoading(false);
     }
-  }, [quizId, attemptId, getJSON]);
+  }, [quizId, attemptId]);
 
   useEffect(() => {
     load();
@@ -126,58 +154,106 @@ export default function TakeQuizPage() {
 
   const total = questions.length;
   const answeredCount = useMemo(
-    () => questions.reduce((acc, q) => (typeof answers[q.id] === "number" ? acc + 1 : acc), 0),
+    () => questions.reduce((acc, q) => (isAnswered(answers[q.id]) ? acc + 1 : acc), 0),
     [questions, answers]
   );
   const progressPct = total ? Math.round((answeredCount / total) * 100) : 0;
 
-  async function chooseOption(q: Question, optionIndex: number) {
-    if (saving) return;
+  async function chooseAnswer(q: Question, value: AnswerValue | null) {
+    if (saving || timer.expired || checked[q.id]) return;
     setErr("");
-    setSaving(true);
-    const prev = answers[q.id];
+    setAnswers((map) => ({ ...map, [q.id]: value ?? undefined }));
+    if (!value) return;
+    try {
+      await enqueueAnswer(quizId, attemptId, q.id, value);
+    } catch (e) {
+      return setErr(errorMessage(e, "Could not save answer"));
+    }
+    // One click is the whole answer for these, so practice checks it right away.
+    if (practice && isAutoChecked(q)) checkAnswer(q);
+  }
 
-    setAnswers((map) => ({ ...map, [q.id]: optionIndex }));
+  function retry(q: Question) {
+    setChecked((map) => without(map, q.id));
+    setAnswers((map) => ({ ...map, [q.id]: undefined }));
+  }
 
+  async function checkAnswer(q: Question) {
+    setErr("");
+    setChecking(true);
     try {
-      await postJSON(`/quiz/${quizId}/attempts/${attemptId}/answers`, {
-        questionId: q.id,
-        selectedOptionIndex: optionIndex,
-      });
-    } catch (e: any) {
-      setAnswers((map) => ({ ...map, [q.id]: prev }));
-      setErr(e?.message || "Could not save answer");
+      await flushAnswers(attemptId);
+      const feedback = await api.attempts.feedback(quizId, attemptId, q.id);
+      setChecked((map) => ({ ...map, [q.id]: feedback }));
+    } catch (e) {
+      setErr(
+        isMissingRoute(e) ? "Instant feedback isn't available for this quiz." : errorMessage(e, "Could not check answer")
+      );
     } finally {
-      setSaving(false);
+      setChecking(false);
     }
   }
 
-  async function finishQuiz() {
-    if (saving) return;
+  /** Resolves true once the attempt is graded. */
+  const finishQuiz = useCallback(async () => {
+    if (saving) return false;
     setErr("");
     setSaving(true);
     try {
-      const r = await getJSON<ResultPayload>(`/quiz/${quizId}/attempts/${attemptId}/result`);
+      await flushAnswers(attemptId);
+      const r = await api.attempts.result(quizId, attemptId);
       setFinished(r);
-    } catch (e: any) {
-      setErr(e?.message || "Could not finish quiz");
+      return true;
+    } catch (e) {
+      setErr(errorMessage(e, "Could not finish quiz"));
+      return false;
     } finally {
       setSaving(false);
     }
-  }
+  }, [saving, quizId, attemptId]);
+
+  // Time's up: submit, and keep trying until it goes through.
+  useEffect(() => {
+    if (!timer.expired || finished || autoSubmitted || autoSubmitting.current) return;
+    const t = window.setTimeout(
+      async () => {
+        autoSubmitting.current = true;
+        const ok = await finishQuiz();
+        autoSubmitting.current = false;
+        if (ok) setAutoSubmitted(true);
+        else setAutoSubmitFailures((n) => n + 1);
+      },
+      autoSubmitFailures ? AUTO_SUBMIT_RETRY_MS : 0
+    );
+    return () => window.clearTimeout(t);
+  }, [timer.expired, finished, autoSubmitted, autoSubmitFailures, finishQuiz]);
+
+  const shown = questions[current] && presentQuestion(questions[current], attemptId, shuffle);
+  const currentAnswer = questions[current] && answers[questions[current].id];
+  const currentCheck = questions[current] && checked[questions[current].id];
 
   function goto(index: number) {
     if (index < 0 || index >= total) return;
     setCurrent(index);
+    api.attempts.savePosition(quizId, attemptId, questions[index].id).catch(() => undefined);
     window.scrollTo({ top: 0, behavior: "smooth" });
   }
 
   return (
     <div className="min-h-screen bg-[#0b1220] text-white p-6 space-y-6">
       <PageLoader show={loading || saving} />
+      {monitored && acknowledged && !finished && lockdown.supported && !lockdown.fullscreen && (
+        <FullscreenGate left={fullscreenExits > 0} onReturn={lockdown.enter} />
+      )}
 
       <header className="space-y-2">
-        <h1 className="text-2xl font-semibold">Take Quiz</h1>
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-semibold">Take Quiz</h1>
+          <div className="flex items-center gap-2">
+            {!finished && <AnswerSyncStatus queue={queue} />}
+            {timer.remainingMs !== null && !finished && <QuizCountdown remainingMs={timer.remainingMs} />}
+          </div>
+        </div>
 
         <div
           className="w-full"
@@ -197,6 +273,17 @@ export default function TakeQuizPage() {
         </div>
       </header>
 
+      {timer.warning && !finished && <InlineAlert type="warning">{timer.warning}</InlineAlert>}
+      {queue.error && <InlineAlert type="error">{queue.error}</InlineAlert>}
+      {autoSubmitted && (
+        <InlineAlert type="info">Time's up — your attempt was submitted automatically.</InlineAlert>
+      )}
+      {timer.expired && !finished && autoSubmitFailures > 0 && (
+        <InlineAlert type="warning">
+          Time's up, but submitting your attempt failed. Retrying every {AUTO_SUBMIT_RETRY_MS / 1000} seconds…
+        </InlineAlert>
+      )}
+
       {err && (
         <InlineAlert type="error" onRetry={load}>
           {err}
@@ -207,11 +294,22 @@ export default function TakeQuizPage() {
         <div className="text-slate-300">No questions in this quiz yet.</div>
       )}
 
-      {!loading && !err && total > 0 && (
+      {!loading && !err && total > 0 && monitored && !acknowledged && !finished && (
+        <MonitoringNotice
+          onAccept={() => {
+            acknowledgeMonitoring(attemptId);
+            setAcknowledged(true);
+            lockdown.enter();
+          }}
+        />
+      )}
+
+      {!loading && !err && total > 0 && (!monitored || acknowledged || finished) && (
         <>
           <div className="flex flex-wrap gap-2">
             {questions.map((qq, i) => {
-              const done = typeof answers[qq.id] === "number";
+              const done = isAnswered(answers[qq.id]);
+              const missed = checked[qq.id] && answerVerdict(checked[qq.id]) !== "correct";
               const isCurrent = i === current;
               return (
                 <button
@@ -220,10 +318,12 @@ export default function TakeQuizPage() {
                   className={`w-9 h-9 rounded-full border text-sm focus:outline-none focus:ring-2 focus:ring-sky-400
                     ${isCurrent
                       ? "bg-sky-600 text-white border-sky-600"
+                      : missed
+                      ? "bg-rose-500/20 text-rose-300 border-rose-400/30"
                       : done
                       ? "bg-emerald-500/20 text-emerald-300 border-emerald-400/30"
                       : "bg-white/5 text-slate-200 border-white/10 hover:bg-white/10"}`}
-                  title={done ? "Answered" : "Unanswered"}
+                  title={missed ? "Answered incorrectly" : done ? "Answered" : "Unanswered"}
                   aria-current={isCurrent ? "step" : undefined}
                 >
                   {i + 1}
@@ -232,32 +332,37 @@ export default function TakeQuizPage() {
             })}
           </div>
 
-          {questions[current] && (
+          {shown && (
             <section className="p-4 rounded-2xl border border-white/10 bg-white/5">
-              <h2 className="text-lg font-semibold mb-3">{questions[current].text}</h2>
-              <div className="space-y-2">
-                {questions[current].options.map((opt, idx) => {
-                  const isSelected = answers[questions[current].id] === idx;
-                  return (
-                    <button
-                      key={idx}
-                      onClick={() => chooseOption(questions[current], idx)}
-                      disabled={saving}
-                      className={`w-full text-left p-3 rounded border transition
-                        focus:outline-none focus:ring-2 focus:ring-sky-400
-                        ${isSelected
-                          ? "bg-sky-600/20 border-sky-500 text-white"
-                          : "bg-white/5 border-white/10 text-slate-200 hover:bg-white/10"}`}
-                      aria-pressed={isSelected}
-                    >
-                      <span className="mr-2 inline-block w-5 text-center">
-                        {isSelected ? "●" : "○"}
-                      </span>
-                      {opt}
-                    </button>
-                  );
-                })}
-              </div>
+              <RichText text={shown.question.text} className="text-lg font-semibold mb-3" />
+              <QuestionMedia attachments={shown.question.attachments} />
+              <QuestionAnswerInput
+                key={shown.question.id}
+                question={shown.question}
+                value={shown.toDisplay(answers[shown.question.id])}
+                onChange={(v) => chooseAnswer(questions[current], v && shown.toCanonical(v))}
+                disabled={saving || timer.expired || checking || !!currentCheck}
+              />
+              {instantFeedback && !finished && !currentCheck && !(practice && isAutoChecked(shown.question)) && (
+                <button
+                  className="mt-3 px-3 py-1.5 rounded border border-white/10 bg-white/10 text-slate-200 hover:bg-white/20 disabled:opacity-50"
+                  onClick={() => checkAnswer(questions[current])}
+                  disabled={!isAnswered(currentAnswer) || checking || saving || timer.expired}
+                  title="Your answer is locked once checked"
+                >
+                  {checking ? "Checking…" : "Check answer"}
+                </button>
+              )}
+              {currentCheck && currentAnswer && (
+                <AnswerCheck
+                  key={shown.question.id}
+                  question={questions[current]}
+                  shown={shown}
+                  answer={currentAnswer}
+                  result={currentCheck}
+                  onRetry={practice && !finished ? () => retry(questions[current]) : undefined}
+                />
+              )}
             </section>
           )}
 
@@ -284,7 +389,7 @@ export default function TakeQuizPage() {
                 disabled={finished !== null || saving}
                 title="Finish and show your result"
               >
-                Finish Quiz
+                {practice ? "Finish Practice" : "Finish Quiz"}
               </button>
             </div>
           </div>
@@ -292,14 +397,17 @@ export default function TakeQuizPage() {
           {finished && (
             <section className="p-4 rounded-2xl border border-white/10 bg-white/5 space-y-3">
               <h3 className="text-lg font-semibold">Your Result</h3>
+              {practice && (
+                <p className="text-sm text-slate-400">Practice run — this score isn't recorded in your grades.</p>
+              )}
               <div>
                 <span
                   className={`px-2 py-1 text-sm rounded
-                    ${finished.score / finished.total >= 0.5
+                    ${isPassing(finished)
                       ? "bg-emerald-500/20 text-emerald-300"
                       : "bg-rose-500/20 text-rose-300"}`}
                 >
-                  Score: {finished.score}/{finished.total}
+                  Score: {fmtPoints(finished.score)}/{fmtPoints(finished.total)} points
                 </span>
               </div>
 
@@ -317,16 +425,21 @@ export default function TakeQuizPage() {
                 <ul className="mt-2 space-y-2">
                   {finished.answers.map((a) => {
                     const qq = questions.find((x) => x.id === a.questionId);
+                    const verdict = VERDICTS[answerVerdict(a)];
                     return (
                       <li key={a.questionId} className="p-2 rounded border border-white/10 bg-white/5">
-                        <div className="font-medium">{qq?.text ?? `Q${a.questionId}`}</div>
+                        {qq ? (
+                          <>
+                            <RichText text={qq.text} className="font-medium" />
+                            <QuestionMedia attachments={qq.attachments} />
+                          </>
+                        ) : (
+                          <div className="font-medium">Q{a.questionId}</div>
+                        )}
                         <div className="text-sm text-slate-300">
-                          You chose: {qq?.options[a.selectedOptionIndex] ?? `#${a.selectedOptionIndex}`} —{" "}
-                          {a.isCorrect ? (
-                            <span className="text-emerald-300">Correct</span>
-                          ) : (
-                            <span className="text-rose-300">Incorrect</span>
-                          )}
+                          You answered: {describeAnswer(qq, a)} —{" "}
+                          <span className={verdict.className}>{verdict.label}</span>{" "}
+                          <span className="text-slate-400">({fmtAnswerPoints(a)})</span>
                         </div>
                       </li>
                     );
@@ -0,0 +1,81 @@
+import type { Quiz, ScoringPolicy, StudentAttempt } from "../api";
+import { fmtPoints } from "./scoring";
+import { fmtUntil } from "./time";
+
+export const SCORING_POLICIES: { value: ScoringPolicy; label: string }[] = [
+  { value: "best", label: "Best attempt" },
+  { value: "latest", label: "Latest attempt" },
+  { value: "average", label: "Average of attempts" },
+];
+
+type AttemptRules = Pick<Quiz, "id" | "maxAttempts" | "attemptCooldownMinutes" | "mode">;
+
+export type AttemptAvailability = {
+  /** Why a new attempt can't be started right now, or null when it can. */
+  blocked: string | null;
+  /** Usage hint for the take button, e.g. "2 of 3 attempts used". */
+  note: string | null;
+};
+
+const finishedAt = (a: StudentAttempt) => Date.parse(a.submittedAt ?? a.startedAt);
+
+/**
+ * Mirrors the server's checks so students see why they can't start, instead
+ * of finding out from an error. The server still has the final say.
+ */
+export function attemptAvailability(
+  quiz: AttemptRules,
+  attempts: StudentAttempt[],
+  now = Date.now()
+): AttemptAvailability {
+  if (quiz.mode === "practice") return { blocked: null, note: "Practice • doesn't count toward grades" };
+  // Practice runs from before the quiz became an exam don't use up attempts.
+  const mine = attempts.filter((a) => a.quizId === quiz.id && !a.practice);
+  const max = quiz.maxAttempts || null;
+  const note = max ? `${Math.min(mine.length, max)} of ${max} attempts used` : null;
+  if (max && mine.length >= max) return { blocked: `All ${max} attempts used`, note };
+
+  // The wait runs from the end of the last finished attempt.
+  const finished = mine.filter((a) => a.submittedAt !== null);
+  if (quiz.attemptCooldownMinutes && finished.length) {
+    const availableAt = Math.max(...finished.map(finishedAt)) + quiz.attemptCooldownMinutes * 60_000;
+    if (availableAt > now) return { blocked: `Available again in ${fmtUntil(availableAt - now)}`, note };
+  }
+  return { blocked: null, note };
+}
+
+/** Practice attempts are flagged by the server, or known from their quiz's mode. */
+export function isPracticeAttempt(a: StudentAttempt, quizzes: Pick<Quiz, "id" | "mode">[]) {
+  return !!a.practice || quizzes.find((q) => q.id === a.quizId)?.mode === "practice";
+}
+
+export type CountedScore = {
+  /** "7.5/10" points for a single counted attempt, "68%" for an average. */
+  label: string;
+  ratio: number;
+  attempts: number;
+  /** The attempt that counts; the latest one for averages. */
+  attemptId: number;
+};
+
+/** The score that counts for one quiz under its policy, from finished attempts only. */
+export function countedScore(policy: ScoringPolicy = "best", attempts: StudentAttempt[]): CountedScore | null {
+  const finished = attempts.filter((a) => a.submittedAt !== null && a.total > 0);
+  if (!finished.length) return null;
+  const ratio = (a: StudentAttempt) => a.score / a.total;
+
+  const latest = finished.reduce((a, b) => (finishedAt(b) > finishedAt(a) ? b : a));
+
+  if (policy === "average") {
+    const avg = finished.reduce((sum, a) => sum + ratio(a), 0) / finished.length;
+    return { label: `${Math.round(avg * 100)}%`, ratio: avg, attempts: finished.length, attemptId: latest.id };
+  }
+
+  const pick = policy === "latest" ? latest : finished.reduce((a, b) => (ratio(b) > ratio(a) ? b : a));
+  return {
+    label: `${fmtPoints(pick.score)}/${fmtPoints(pick.total)}`,
+    ratio: ratio(pick),
+    attempts: finished.length,
+    attemptId: pick.id,
+  };
+}
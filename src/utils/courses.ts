@@ -0,0 +1,39 @@
+import type { Course, CourseRole } from "../api";
+
+export const COURSE_ROLES: { value: CourseRole; label: string }[] = [
+  { value: "instructor", label: "Instructor" },
+  { value: "ta", label: "TA" },
+  { value: "student", label: "Student" },
+];
+
+export const courseRoleLabel = (role: CourseRole) => COURSE_ROLES.find((r) => r.value === role)?.label ?? role;
+
+/** Instructors and TAs see the roster and grades. */
+export const isCourseStaff = (role?: CourseRole) => role === "instructor" || role === "ta";
+
+export const courseName = (c: Pick<Course, "title" | "code">) => (c.code ? `${c.code} · ${c.title}` : c.title);
+
+export const inviteUrl = (token: string) => `${window.location.origin}/courses/join/${encodeURIComponent(token)}`;
+
+/** Accepts a whole invite link as pasted from chat or email, or just its token. */
+export function inviteToken(input: string) {
+  const text = input.trim();
+  const match = text.match(/\/courses\/join\/([^/?#\s]+)/);
+  return match ? decodeURIComponent(match[1]) : text;
+}
+
+export type CourseGroup<T> = { course: Course | null; items: T[] };
+
+/**
+ * Splits items by course, in the order of `courses`, with everything outside
+ * a known course last under `course: null`. Empty groups are left out.
+ */
+export function groupByCourse<T>(items: T[], courseIdOf: (item: T) => number | null | undefined, courses: Course[]) {
+  const groups: CourseGroup<T>[] = courses.map((course) => ({
+    course,
+    items: items.filter((item) => courseIdOf(item) === course.id),
+  }));
+  const known = new Set(courses.map((c) => c.id));
+  groups.push({ course: null, items: items.filter((item) => !known.has(courseIdOf(item) ?? -1)) });
+  return groups.filter((g) => g.items.length > 0);
+}
@@ -0,0 +1,32 @@
+export function downloadFile(fileName: string, content: Blob | string, type = "text/plain") {
+  const blob = typeof content === "string" ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Some browsers start the download asynchronously.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Lowercase, dash-separated file name stem, e.g. "Unit 3: Cells" → "unit-3-cells". */
+export function fileSlug(title: string, fallback = "quiz") {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || fallback
+  );
+}
+
+export function escapeXml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
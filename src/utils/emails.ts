@@ -0,0 +1,8 @@
+/** Pasted lists come separated by newlines, commas or semicolons, often with duplicates. */
+export function parseEmails(text: string) {
+  const emails = text
+    .split(/[\s,;]+/)
+    .map((e) => e.trim().toLowerCase())
+    .filter((e) => e.includes("@"));
+  return [...new Set(emails)];
+}
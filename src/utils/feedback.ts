@@ -0,0 +1,38 @@
+import type { AnswerValue, FeedbackTiming, Question, Quiz, QuizSchedule } from "../api";
+import { quizStatus } from "./quizStatus";
+
+export const FEEDBACK_TIMINGS: { value: FeedbackTiming; label: string }[] = [
+  { value: "immediate", label: "After each answer" },
+  { value: "after_submit", label: "After submitting" },
+  { value: "after_close", label: "After the quiz closes" },
+];
+
+type FeedbackRules = QuizSchedule & Pick<Quiz, "feedbackTiming">;
+
+/**
+ * Whether a submitted attempt's key and explanations may be shown now. The
+ * server withholds them too; this only avoids showing the fallbacks derived
+ * from the questions early. An unknown quiz is treated as "after_submit".
+ */
+export function feedbackReleased(quiz: FeedbackRules | null, now = Date.now()) {
+  if (quiz?.feedbackTiming !== "after_close") return true;
+  const status = quizStatus(quiz, now);
+  return status === "closed" || status === "archived";
+}
+
+export function feedbackPendingNote(quiz: FeedbackRules) {
+  return quiz.closesAt
+    ? `Correct answers and explanations will be shown after the quiz closes on ${new Date(quiz.closesAt).toLocaleString()}.`
+    : "Correct answers and explanations will be shown once the quiz closes.";
+}
+
+/** The author's feedback on the options the student picked. */
+export function pickedFeedback(q: Question | undefined, answer: AnswerValue): string[] {
+  if (!q || (q.type !== "single" && q.type !== "multi") || !q.optionFeedback) return [];
+  const picked =
+    answer.type === "single" ? [answer.selectedOptionIndex] : answer.type === "multi" ? answer.selectedOptionIndexes : [];
+  return picked.map((i) => q.optionFeedback?.[i]?.trim() ?? "").filter(Boolean);
+}
+
+/** Single-choice and true/false answers are complete in one click, so practice checks them on the spot. */
+export const isAutoChecked = (q: Question) => q.type === "single" || q.type === "truefalse";
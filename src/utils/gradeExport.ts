@@ -0,0 +1,124 @@
+import type { Quiz } from "../api";
+import { escapeXml } from "./download";
+import type { GradeRow } from "./grades";
+import { createZip } from "./zip";
+
+type Sheet = { header: string[]; rows: (string | number | null)[][] };
+
+const pct = (ratio: number) => Math.round(ratio * 1000) / 10;
+
+/**
+ * Grades as registrar systems take them: one row per student, one percentage
+ * column per quiz (blank when nothing was submitted) and the average.
+ */
+function toSheet(rows: GradeRow[], quizzes: Quiz[]): Sheet {
+  return {
+    header: ["Student ID", "Name", "Email", ...quizzes.map((q) => `${q.title} (%)`), "Average (%)"],
+    rows: rows.map(({ student, cells, average }) => [
+      student.id,
+      student.name ?? "",
+      student.email,
+      ...quizzes.map((q) => {
+        const cell = cells.get(q.id);
+        return cell ? pct(cell.ratio) : null;
+      }),
+      pct(average),
+    ]),
+  };
+}
+
+// ---- CSV -------------------------------------------------------------------
+
+const csvCell = (v: string | number | null) => {
+  const s = v === null ? "" : String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function gradesCsv(rows: GradeRow[], quizzes: Quiz[]): string {
+  const { header, rows: body } = toSheet(rows, quizzes);
+  return [header, ...body].map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// ---- XLSX ------------------------------------------------------------------
+
+/** "A", "B", … "Z", "AA", … */
+function columnName(i: number) {
+  let name = "";
+  for (let n = i + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+}
+
+function xlsxCell(v: string | number | null, ref: string, bold = false) {
+  if (v === null) return "";
+  const style = bold ? ' s="1"' : "";
+  if (typeof v === "number") return `<c r="${ref}"${style}><v>${v}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"${style}><is><t>${escapeXml(v)}</t></is></c>`;
+}
+
+/** A single-sheet workbook with a bold, frozen header row. Inline strings keep it free of a shared-strings part. */
+export function gradesXlsx(rows: GradeRow[], quizzes: Quiz[], sheetName = "Grades"): Blob {
+  const { header, rows: body } = toSheet(rows, quizzes);
+  const sheetRows = [header, ...body]
+    .map(
+      (r, i) =>
+        `<row r="${i + 1}">${r.map((v, j) => xlsxCell(v, `${columnName(j)}${i + 1}`, i === 0)).join("")}</row>`
+    )
+    .join("");
+
+  const worksheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<sheetData>${sheetRows}</sheetData>
+</worksheet>`;
+
+  // Sheet names can't contain []:*?/\ and are capped at 31 characters.
+  const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Grades");
+
+  return createZip([
+    {
+      name: "[Content_Types].xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`,
+    },
+    {
+      name: "xl/styles.xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>
+</styleSheet>`,
+    },
+    { name: "xl/worksheets/sheet1.xml", content: worksheet },
+  ]);
+}
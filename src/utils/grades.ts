@@ -0,0 +1,71 @@
+import type { Quiz, QuizAttemptRow, StudentAttempt } from "../api";
+import { countedScore, type CountedScore } from "./attemptPolicy";
+import { quizStatus } from "./quizStatus";
+import { DEFAULT_PASS_MARK } from "./scoring";
+
+export type GradeStudent = { id: number; email: string; name?: string };
+
+export type GradeCell = CountedScore & { passed: boolean };
+
+export type GradeRow = {
+  student: GradeStudent;
+  /** By quiz id; quizzes without a finished attempt have no entry. */
+  cells: Map<number, GradeCell>;
+  /** Mean ratio over every graded quiz, missing ones counting as zero, as on a transcript. */
+  average: number;
+};
+
+/**
+ * Quizzes students could have taken: practice quizzes never count, and drafts
+ * and quizzes that haven't opened yet would only add zeros, so none get a column.
+ */
+export const gradedQuizzes = (quizzes: Quiz[]) =>
+  quizzes.filter((q) => {
+    const status = quizStatus(q);
+    return q.mode !== "practice" && status !== "draft" && status !== "scheduled";
+  });
+
+// An attempt row without submittedAt has not been submitted yet.
+const toStudentAttempt = (r: QuizAttemptRow): StudentAttempt => ({
+  id: r.id,
+  quizId: r.quizId,
+  quizTitle: "",
+  score: r.score ?? 0,
+  total: r.total ?? 0,
+  startedAt: r.startedAt ?? "",
+  submittedAt: r.submittedAt ?? null,
+  practice: r.practice,
+});
+
+/**
+ * The score that counts, under each quiz's policy, per student and quiz.
+ * `students` gives everyone a row even before their first attempt; anyone
+ * else with graded attempts (e.g. a student who has since left) is added after
+ * them. Practice runs never count.
+ */
+export function gradeRows(students: GradeStudent[], quizzes: Quiz[], all: QuizAttemptRow[]): GradeRow[] {
+  const attempts = all.filter((a) => !a.practice);
+  const everyone = new Map(students.map((s) => [s.id, s]));
+  for (const a of attempts) {
+    if (!everyone.has(a.studentId))
+      everyone.set(a.studentId, { id: a.studentId, email: a.student?.email ?? `Student #${a.studentId}` });
+  }
+
+  const graded = gradedQuizzes(quizzes);
+  return [...everyone.values()].map((student) => {
+    const mine = attempts.filter((a) => a.studentId === student.id);
+    const cells = new Map<number, GradeCell>();
+    for (const quiz of graded) {
+      const counted = countedScore(
+        quiz.scoringPolicy,
+        mine.filter((a) => a.quizId === quiz.id).map(toStudentAttempt)
+      );
+      if (counted)
+        cells.set(quiz.id, { ...counted, passed: counted.ratio * 100 >= (quiz.passMark ?? DEFAULT_PASS_MARK) });
+    }
+    const average = graded.length ? [...cells.values()].reduce((sum, c) => sum + c.ratio, 0) / graded.length : 0;
+    return { student, cells, average };
+  });
+}
+
+export const studentLabel = (s: GradeStudent) => s.name ?? s.email;
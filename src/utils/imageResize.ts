@@ -0,0 +1,48 @@
+/**
+ * Photos straight off a phone are often several megabytes; questions only
+ * need them at screen size. Raster images are scaled down and re-encoded
+ * before upload. SVGs and GIFs (which may be animated) go up untouched.
+ */
+
+const MAX_DIMENSION = 1600;
+const QUALITY = 0.85;
+/** Upper bound for anything sent to the server, after compression. */
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+export type PreparedFile = { file: File; width?: number; height?: number };
+
+const keepAsIs = (type: string) => !type.startsWith("image/") || type === "image/svg+xml" || type === "image/gif";
+
+function toBlob(canvas: HTMLCanvasElement, type: string) {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, QUALITY));
+}
+
+export async function prepareFile(file: File): Promise<PreparedFile> {
+  if (keepAsIs(file.type)) return { file };
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error(`${file.name} isn't a readable image`);
+  }
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  // PNGs may rely on transparency, which JPEG would flatten to black.
+  const type = file.type === "image/png" ? "image/webp" : "image/jpeg";
+  const blob = await toBlob(canvas, type);
+  // Browsers without WebP encoding fall back to PNG; keep whichever is smaller.
+  if (!blob || (blob.size >= file.size && scale === 1)) return { file, width, height };
+
+  const ext = blob.type === "image/jpeg" ? "jpg" : blob.type === "image/webp" ? "webp" : "png";
+  const name = `${file.name.replace(/\.[^.]*$/, "")}.${ext}`;
+  return { file: new File([blob], name, { type: blob.type }), width, height };
+}
@@ -0,0 +1,29 @@
+import type { ProctorEventType } from "../api";
+
+export const PROCTOR_EVENT_LABELS: Record<ProctorEventType, string> = {
+  tab_hidden: "Left the tab",
+  tab_visible: "Came back to the tab",
+  window_blur: "Window lost focus",
+  window_focus: "Window regained focus",
+  copy: "Copied text",
+  cut: "Cut text",
+  paste: "Pasted text",
+  context_menu: "Right-clicked",
+  fullscreen_exit: "Left fullscreen",
+  fullscreen_enter: "Returned to fullscreen",
+};
+
+/** Events worth a reviewer's attention; the rest mark the student coming back. */
+export const isFlagged = (type: ProctorEventType) =>
+  type !== "tab_visible" && type !== "window_focus" && type !== "fullscreen_enter";
+
+const ackKey = (attemptId: number) => `proctor-ack:${attemptId}`;
+
+/** The monitoring notice is shown once per attempt and tab, not again after a reload. */
+export function monitoringAcknowledged(attemptId: number) {
+  return sessionStorage.getItem(ackKey(attemptId)) === "1";
+}
+
+export function acknowledgeMonitoring(attemptId: number) {
+  sessionStorage.setItem(ackKey(attemptId), "1");
+}
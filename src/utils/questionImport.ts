@@ -0,0 +1,349 @@
+import type { Attachment, QuestionInput } from "../api";
+
+export type ImportFormat = "csv" | "json" | "gift";
+
+export type ImportRow = {
+  /** Where the row came from, e.g. "Line 4" or "Item 2", for error messages. */
+  source: string;
+  /** Present only when the row is valid. */
+  input?: QuestionInput;
+  errors: string[];
+};
+
+export function formatFromFileName(name: string): ImportFormat | null {
+  const ext = name.split(".").pop()?.toLowerCase();
+  if (ext === "csv") return "csv";
+  if (ext === "json") return "json";
+  if (ext === "gift" || ext === "txt") return "gift";
+  return null;
+}
+
+export function parseQuestions(format: ImportFormat, text: string): ImportRow[] {
+  switch (format) {
+    case "csv":
+      return parseCsv(text);
+    case "json":
+      return parseJson(text);
+    case "gift":
+      return parseGift(text);
+  }
+}
+
+// ---- validation ------------------------------------------------------------
+
+type Raw = Record<string, unknown>;
+
+const isStringList = (v: unknown): v is string[] => Array.isArray(v) && v.every((x) => typeof x === "string");
+const isIndexList = (v: unknown, max: number): v is number[] =>
+  Array.isArray(v) && v.every((x) => Number.isInteger(x) && x >= 0 && x < max);
+
+/** Checks an untrusted object against the `QuestionInput` union. Missing `type` means single choice. */
+export function checkQuestion(raw: unknown, source: string): ImportRow {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object") return { source, errors: ["Not an object"] };
+  const q = raw as Raw;
+  const text = typeof q.text === "string" ? q.text.trim() : "";
+  if (!text) errors.push("Question text is required");
+  const type = q.type ?? "single";
+  if (q.points !== undefined && !(typeof q.points === "number" && q.points > 0))
+    errors.push("points must be a positive number");
+
+  switch (type) {
+    case "single":
+    case "multi": {
+      if (!isStringList(q.options) || q.options.length < 2) {
+        errors.push("At least two options are required");
+        break;
+      }
+      if (q.options.some((o) => !o.trim())) errors.push("Options can't be empty");
+      const n = q.options.length;
+      if (type === "single" && !isIndexList([q.correctOptionIndex], n))
+        errors.push(`Correct index must be between 0 and ${n - 1}`);
+      if (type === "multi" && (!isIndexList(q.correctOptionIndexes, n) || !q.correctOptionIndexes.length))
+        errors.push(`Correct indexes must be between 0 and ${n - 1}`);
+      break;
+    }
+    case "truefalse":
+      if (typeof q.correctValue !== "boolean") errors.push("correctValue must be true or false");
+      break;
+    case "numeric":
+      if (typeof q.correctValue !== "number" || !Number.isFinite(q.correctValue))
+        errors.push("correctValue must be a number");
+      if (q.tolerance !== undefined && !(typeof q.tolerance === "number" && q.tolerance >= 0))
+        errors.push("tolerance must be zero or a positive number");
+      break;
+    case "text":
+      if (!isStringList(q.acceptedAnswers) || !q.acceptedAnswers.length)
+        errors.push("At least one accepted answer is required");
+      else if (q.matchMode === "regex")
+        for (const a of q.acceptedAnswers) {
+          try {
+            new RegExp(a);
+          } catch {
+            errors.push(`Invalid pattern: ${a}`);
+          }
+        }
+      if (q.matchMode !== undefined && q.matchMode !== "exact" && q.matchMode !== "regex")
+        errors.push('matchMode must be "exact" or "regex"');
+      break;
+    case "ordering":
+      if (!isStringList(q.items) || q.items.length < 2) errors.push("At least two items are required");
+      else if (q.correctOrder !== undefined && !isIndexList(q.correctOrder, q.items.length))
+        errors.push("correctOrder must list item indexes");
+      break;
+    default:
+      errors.push(`Unknown question type "${String(type)}"`);
+  }
+
+  if (errors.length) return { source, errors };
+  return { source, input: toInput(q, text, type as QuestionInput["type"]), errors };
+}
+
+/** Only the fields a question has, so ids, timestamps and the like from an export don't reach the API. */
+function toInput(q: Raw, text: string, type: QuestionInput["type"]): QuestionInput {
+  const common = {
+    text,
+    ...(typeof q.points === "number" ? { points: q.points } : {}),
+    ...(typeof q.explanation === "string" && q.explanation.trim() ? { explanation: q.explanation } : {}),
+    ...(Array.isArray(q.attachments) ? { attachments: q.attachments as Attachment[] } : {}),
+  };
+  const options = q.options as string[];
+  // Per-option extras only make sense when they line up with the options.
+  const perOption = {
+    ...(Array.isArray(q.optionImages) && q.optionImages.length === options?.length
+      ? { optionImages: q.optionImages as (Attachment | null)[] }
+      : {}),
+    ...(isStringList(q.optionFeedback) && q.optionFeedback.length === options?.length
+      ? { optionFeedback: q.optionFeedback }
+      : {}),
+  };
+
+  switch (type) {
+    case "single":
+      return { ...common, ...perOption, type, options, correctOptionIndex: q.correctOptionIndex as number };
+    case "multi":
+      return {
+        ...common,
+        ...perOption,
+        type,
+        options,
+        correctOptionIndexes: q.correctOptionIndexes as number[],
+        ...(typeof q.partialCredit === "boolean" ? { partialCredit: q.partialCredit } : {}),
+      };
+    case "truefalse":
+      return { ...common, type, correctValue: q.correctValue as boolean };
+    case "numeric":
+      return {
+        ...common,
+        type,
+        correctValue: q.correctValue as number,
+        ...(typeof q.tolerance === "number" ? { tolerance: q.tolerance } : {}),
+      };
+    case "text":
+      return {
+        ...common,
+        type,
+        acceptedAnswers: q.acceptedAnswers as string[],
+        ...(q.matchMode === "exact" || q.matchMode === "regex" ? { matchMode: q.matchMode } : {}),
+        ...(typeof q.caseSensitive === "boolean" ? { caseSensitive: q.caseSensitive } : {}),
+      };
+    case "ordering": {
+      const items = q.items as string[];
+      const correctOrder = (q.correctOrder as number[] | undefined) ?? items.map((_, i) => i);
+      return { ...common, type, items, correctOrder };
+    }
+  }
+}
+
+// ---- CSV -------------------------------------------------------------------
+
+/** RFC 4180 records: quoted fields may contain commas, newlines and doubled quotes. */
+function csvRecords(text: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else {
+        if (c === "\n") line++;
+        field += c;
+      }
+    } else if (c === '"') quoted = true;
+    else if (c === ",") {
+      fields.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      fields.push(field);
+      records.push({ line: start, fields });
+      fields = [];
+      field = "";
+      start = ++line;
+    } else field += c;
+  }
+  if (field || fields.length) records.push({ line: start, fields: [...fields, field] });
+  return records.filter((r) => r.fields.some((f) => f.trim()));
+}
+
+/**
+ * Columns: text, options, correct. Options are separated by `|`; several
+ * correct indexes (`0|2`) make a multiple-select question. A header row is skipped.
+ */
+export function parseCsv(text: string): ImportRow[] {
+  const records = csvRecords(text);
+  if (records[0]?.fields[0]?.trim().toLowerCase() === "text") records.shift();
+
+  return records.map(({ line, fields }) => {
+    const source = `Line ${line}`;
+    if (fields.length < 3) return { source, errors: ["Expected 3 columns: text, options, correct"] };
+    const [qText, rawOptions, rawCorrect] = fields;
+    const options = rawOptions.split("|").map((o) => o.trim());
+    const correct = rawCorrect
+      .split("|")
+      .filter((c) => c.trim() !== "")
+      .map(Number);
+    return checkQuestion(
+      correct.length > 1
+        ? { type: "multi", text: qText, options, correctOptionIndexes: correct }
+        : { type: "single", text: qText, options, correctOptionIndex: correct[0] },
+      source
+    );
+  });
+}
+
+// ---- JSON ------------------------------------------------------------------
+
+/** An array of `QuestionInput` objects, or `{ "questions": [...] }` as produced by export. */
+export function parseJson(text: string): ImportRow[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return [{ source: "File", errors: [`Invalid JSON: ${(e as Error).message}`] }];
+  }
+  const list = Array.isArray(data) ? data : (data as { questions?: unknown })?.questions;
+  if (!Array.isArray(list)) return [{ source: "File", errors: ["Expected an array of questions"] }];
+  return list.map((q, i) => checkQuestion(q, `Item ${i + 1}`));
+}
+
+// ---- GIFT ------------------------------------------------------------------
+
+const GIFT_ESCAPE = /\\([~=#{}:\\])/g;
+const giftText = (s: string) => s.replace(GIFT_ESCAPE, "$1").trim();
+
+/** Splits on `sep` characters that aren't backslash-escaped. */
+function splitUnescaped(s: string, sep: RegExp): string[] {
+  const parts: string[] = [];
+  let cur = "";
+  for (let i = 0; i < s.length; i++) {
+    if (s[i] === "\\" && i + 1 < s.length) {
+      cur += s[i] + s[i + 1];
+      i++;
+    } else if (sep.test(s[i])) {
+      parts.push(cur);
+      cur = s[i];
+    } else cur += s[i];
+  }
+  parts.push(cur);
+  return parts;
+}
+
+/** Strips `#feedback` from an answer, ignoring escaped `\#`. */
+const dropFeedback = (s: string) => splitUnescaped(s, /#/)[0];
+
+function giftQuestion(block: string): Raw | string {
+  let body = block.trim();
+  // Optional ::title:: and [format] prefixes.
+  body = body.replace(/^::(?:\\:|[^:])*::/, "").trim();
+  body = body.replace(/^\[(?:html|moodle|plain|markdown)\]/i, "").trim();
+
+  const open = body.search(/(?<!\\)\{/);
+  const end = open < 0 ? -1 : body.slice(open + 1).search(/(?<!\\)\}/);
+  if (end < 0) return "Missing {answer} block";
+  const close = open + 1 + end;
+  // Text after the block makes it a missing-word question; the block becomes a blank.
+  const before = giftText(body.slice(0, open));
+  const after = giftText(body.slice(close + 1));
+  const text = after ? `${before} _____ ${after}` : before;
+  const answers = body.slice(open + 1, close).trim();
+
+  if (/^(T|TRUE|F|FALSE)\b/i.test(answers)) {
+    return { type: "truefalse", text, correctValue: /^T/i.test(answers) };
+  }
+
+  if (answers.startsWith("#")) {
+    const spec = dropFeedback(answers.slice(1).replace(/^=/, "")).trim();
+    const range = spec.match(/^(-?[\d.]+)\.\.(-?[\d.]+)$/);
+    if (range) {
+      const [lo, hi] = [Number(range[1]), Number(range[2])];
+      return { type: "numeric", text, correctValue: (lo + hi) / 2, tolerance: Math.abs(hi - lo) / 2 };
+    }
+    const [value, tolerance] = spec.split(":").map(Number);
+    return { type: "numeric", text, correctValue: value, ...(tolerance ? { tolerance } : {}) };
+  }
+
+  if (/(?<!\\)->/.test(answers)) return "Matching questions are not supported";
+
+  const parts = splitUnescaped(answers, /[=~]/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+  if (!parts.length) return "Essay questions are not supported";
+
+  const options: string[] = [];
+  const correct: number[] = [];
+  let weighted = false;
+  for (const part of parts) {
+    let label = dropFeedback(part.slice(1)).trim();
+    const weight = label.match(/^%(-?[\d.]+)%/);
+    if (weight) {
+      weighted = true;
+      label = label.slice(weight[0].length);
+    }
+    if ((part[0] === "=" && !weight) || (weight && Number(weight[1]) > 0)) correct.push(options.length);
+    options.push(giftText(label));
+  }
+
+  // Only "=" answers: every one of them is an accepted short answer.
+  if (parts.every((p) => p[0] === "=")) return { type: "text", text, acceptedAnswers: options, matchMode: "exact" };
+  if (weighted || correct.length > 1) return { type: "multi", text, options, correctOptionIndexes: correct };
+  return { type: "single", text, options, correctOptionIndex: correct[0] };
+}
+
+/**
+ * Moodle GIFT: questions separated by blank lines, `//` comments ignored.
+ * Supports multiple choice (with `%weight%` for multiple answers), true/false,
+ * short answer and numeric questions, with the answer block at the end or
+ * mid-sentence as a missing word.
+ */
+export function parseGift(text: string): ImportRow[] {
+  const rows: ImportRow[] = [];
+  let block: string[] = [];
+  let startLine = 0;
+
+  const flush = () => {
+    if (!block.length) return;
+    const source = `Line ${startLine}`;
+    const q = giftQuestion(block.join("\n"));
+    rows.push(typeof q === "string" ? { source, errors: [q] } : checkQuestion(q, source));
+    block = [];
+  };
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (/^\s*\/\//.test(line)) return;
+    if (/^\s*\$CATEGORY:/.test(line)) return;
+    if (!line.trim()) return flush();
+    if (!block.length) startLine = i + 1;
+    block.push(line);
+  });
+  flush();
+  return rows;
+}
@@ -0,0 +1,87 @@
+import type { AnswerValue, Difficulty, Question, QuestionInput, QuestionType } from "../api";
+
+export const QUESTION_TYPES: { value: QuestionType; label: string }[] = [
+  { value: "single", label: "Single choice" },
+  { value: "multi", label: "Multiple select" },
+  { value: "truefalse", label: "True / false" },
+  { value: "numeric", label: "Numeric" },
+  { value: "text", label: "Short text" },
+  { value: "ordering", label: "Ordering" },
+];
+
+export const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+
+export function questionTypeLabel(type: QuestionType) {
+  return QUESTION_TYPES.find((t) => t.value === type)?.label ?? type;
+}
+
+export function isAnswered(answer: AnswerValue | null | undefined): answer is AnswerValue {
+  if (!answer) return false;
+  if (answer.type === "multi") return answer.selectedOptionIndexes.length > 0;
+  if (answer.type === "text") return answer.value.trim() !== "";
+  return true;
+}
+
+function optionLabel(q: Question | undefined, i: number) {
+  return q && (q.type === "single" || q.type === "multi") ? (q.options[i] ?? `#${i}`) : `#${i}`;
+}
+
+function itemLabel(q: Question | undefined, i: number) {
+  return q?.type === "ordering" ? (q.items[i] ?? `#${i}`) : `#${i}`;
+}
+
+/** One-line, human-readable form of an answer; `q` may be missing on older results. */
+export function describeAnswer(q: Question | undefined, answer: AnswerValue): string {
+  switch (answer.type) {
+    case "single":
+      return optionLabel(q, answer.selectedOptionIndex);
+    case "multi":
+      return answer.selectedOptionIndexes.map((i) => optionLabel(q, i)).join(", ") || "—";
+    case "truefalse":
+      return answer.value ? "True" : "False";
+    case "numeric":
+      return String(answer.value);
+    case "text":
+      return answer.value;
+    case "ordering":
+      return answer.order.map((i) => itemLabel(q, i)).join(" → ");
+  }
+}
+
+/** The answer key as an answer, when the question carries one. Text questions have no single key. */
+export function correctAnswerOf(q: Question): AnswerValue | null {
+  switch (q.type) {
+    case "single":
+      return q.correctOptionIndex === undefined ? null : { type: "single", selectedOptionIndex: q.correctOptionIndex };
+    case "multi":
+      return q.correctOptionIndexes ? { type: "multi", selectedOptionIndexes: q.correctOptionIndexes } : null;
+    case "truefalse":
+      return q.correctValue === undefined ? null : { type: "truefalse", value: q.correctValue };
+    case "numeric":
+      return q.correctValue === undefined ? null : { type: "numeric", value: q.correctValue };
+    case "ordering":
+      return q.correctOrder ? { type: "ordering", order: q.correctOrder } : null;
+    case "text":
+      return null;
+  }
+}
+
+/** Describes the answer key for authors and reviewers, or null when it isn't known. */
+export function describeCorrect(q: Question): string | null {
+  if (q.type === "text") {
+    if (!q.acceptedAnswers?.length) return null;
+    const answers = q.matchMode === "regex" ? q.acceptedAnswers.map((a) => `/${a}/`) : q.acceptedAnswers;
+    return answers.join(" or ") + (q.caseSensitive ? " (case-sensitive)" : "");
+  }
+  const key = correctAnswerOf(q);
+  if (!key) return null;
+  const text = describeAnswer(q, key);
+  return q.type === "numeric" && q.tolerance ? `${text} ± ${q.tolerance}` : text;
+}
+
+/** The question as a create/update body, e.g. to duplicate it. */
+export function toQuestionInput(q: Question): QuestionInput {
+  const input: QuestionInput & { id?: number } = { ...q };
+  delete input.id;
+  return input;
+}
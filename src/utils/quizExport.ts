@@ -0,0 +1,259 @@
+import type { Question, QuestionInput, Quiz } from "../api";
+import { escapeXml } from "./download";
+import { describeCorrect, questionTypeLabel, toQuestionInput } from "./questions";
+import { createZip } from "./zip";
+
+export type QuizBundle = {
+  format: "quiz-portal";
+  version: 1;
+  exportedAt: string;
+  /** For reference only; importing a bundle adds its questions and leaves the quiz's settings alone. */
+  quiz: { title: string; description?: string; category?: string | null; timeLimitMinutes?: number | null };
+  /** Same shape as the import dialog's JSON format, so the questions can be re-imported as is. */
+  questions: QuestionInput[];
+};
+
+export function exportJson(quiz: Quiz, questions: Question[]): string {
+  const bundle: QuizBundle = {
+    format: "quiz-portal",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    quiz: {
+      title: quiz.title,
+      description: quiz.description,
+      category: quiz.category,
+      timeLimitMinutes: quiz.timeLimitMinutes,
+    },
+    questions: questions.map(toQuestionInput),
+  };
+  return JSON.stringify(bundle, null, 2);
+}
+
+// ---- CSV -------------------------------------------------------------------
+
+const csvCell = (s: string) => (/[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s);
+
+/**
+ * Same columns as the CSV import (text, options, correct). Only choice and
+ * true/false questions fit that layout; the rest are counted in `skipped`.
+ */
+export function exportCsv(questions: Question[]): { csv: string; skipped: number } {
+  const lines = ["text,options,correct"];
+  let skipped = 0;
+  for (const q of questions) {
+    let options: string[];
+    let correct: number[];
+    if (q.type === "single") {
+      options = q.options;
+      correct = q.correctOptionIndex === undefined ? [] : [q.correctOptionIndex];
+    } else if (q.type === "multi") {
+      options = q.options;
+      correct = q.correctOptionIndexes ?? [];
+    } else if (q.type === "truefalse") {
+      options = ["True", "False"];
+      correct = q.correctValue === undefined ? [] : [q.correctValue ? 0 : 1];
+    } else {
+      skipped++;
+      continue;
+    }
+    lines.push([q.text, options.join("|"), correct.join("|")].map(csvCell).join(","));
+  }
+  return { csv: lines.join("\r\n") + "\r\n", skipped };
+}
+
+// ---- QTI 2.1 ---------------------------------------------------------------
+
+const QTI_NS =
+  'xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+  'xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"';
+const MATCH_CORRECT =
+  '<responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct"/>';
+const MAP_RESPONSE =
+  '<responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response"/>';
+const SCORE_DECL =
+  '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>';
+
+const values = (vs: (string | number)[]) => vs.map((v) => `<value>${escapeXml(String(v))}</value>`).join("");
+
+/** Sets SCORE to 1 when `condition` holds; used where the standard templates don't fit. */
+const scoreIf = (condition: string) =>
+  `<responseProcessing><responseCondition><responseIf>${condition}` +
+  `<setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue>` +
+  `</responseIf></responseCondition></responseProcessing>`;
+
+function choices(labels: string[], prefix: string) {
+  return labels.map((l, i) => `<simpleChoice identifier="${prefix}${i}">${escapeXml(l)}</simpleChoice>`).join("");
+}
+
+function qtiItem(q: Question, id: string): string {
+  const prompt = `<prompt>${escapeXml(q.text)}</prompt>`;
+  let response: string;
+  let body: string;
+  let processing = MATCH_CORRECT;
+
+  switch (q.type) {
+    case "single":
+    case "multi":
+    case "truefalse": {
+      const labels = q.type === "truefalse" ? ["True", "False"] : q.options;
+      const correct =
+        q.type === "single"
+          ? q.correctOptionIndex === undefined ? [] : [q.correctOptionIndex]
+          : q.type === "multi"
+            ? (q.correctOptionIndexes ?? [])
+            : q.correctValue === undefined ? [] : [q.correctValue ? 0 : 1];
+      const cardinality = q.type === "multi" ? "multiple" : "single";
+      response =
+        `<responseDeclaration identifier="RESPONSE" cardinality="${cardinality}" baseType="identifier">` +
+        `<correctResponse>${values(correct.map((i) => `C${i}`))}</correctResponse></responseDeclaration>`;
+      body =
+        `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${q.type === "multi" ? 0 : 1}">` +
+        `${prompt}${choices(labels, "C")}</choiceInteraction>`;
+      break;
+    }
+    case "numeric": {
+      response =
+        `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">` +
+        `<correctResponse>${values([q.correctValue ?? 0])}</correctResponse></responseDeclaration>`;
+      body = `<p>${escapeXml(q.text)}</p><p><textEntryInteraction responseIdentifier="RESPONSE"/></p>`;
+      const t = q.tolerance ?? 0;
+      processing = scoreIf(
+        `<equal toleranceMode="absolute" tolerance="${t} ${t}"><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></equal>`
+      );
+      break;
+    }
+    case "text": {
+      const accepted = q.acceptedAnswers ?? [];
+      response = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">`;
+      if (q.matchMode === "regex") {
+        response += `</responseDeclaration>`;
+        processing = scoreIf(
+          `<or>${accepted
+            .map((p) => `<patternMatch pattern="${escapeXml(p)}"><variable identifier="RESPONSE"/></patternMatch>`)
+            .join("")}</or>`
+        );
+      } else {
+        const cs = q.caseSensitive ? "true" : "false";
+        response +=
+          `<correctResponse>${values(accepted.slice(0, 1))}</correctResponse>` +
+          `<mapping defaultValue="0">${accepted
+            .map((a) => `<mapEntry mapKey="${escapeXml(a)}" mappedValue="1" caseSensitive="${cs}"/>`)
+            .join("")}</mapping></responseDeclaration>`;
+        processing = MAP_RESPONSE;
+      }
+      body = `<p>${escapeXml(q.text)}</p><p><textEntryInteraction responseIdentifier="RESPONSE"/></p>`;
+      break;
+    }
+    case "ordering": {
+      const order = q.correctOrder ?? q.items.map((_, i) => i);
+      response =
+        `<responseDeclaration identifier="RESPONSE" cardinality="ordered" baseType="identifier">` +
+        `<correctResponse>${values(order.map((i) => `I${i}`))}</correctResponse></responseDeclaration>`;
+      body = `<orderInteraction responseIdentifier="RESPONSE" shuffle="true">${prompt}${choices(q.items, "I")}</orderInteraction>`;
+      break;
+    }
+  }
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<assessmentItem ${QTI_NS} identifier="${id}" title="${escapeXml(q.text.slice(0, 80))}" adaptive="false" timeDependent="false">` +
+    `${response}${SCORE_DECL}<itemBody>${body}</itemBody>${processing}</assessmentItem>\n`
+  );
+}
+
+/** IMS QTI 2.1 content package: one item per question, a test that lists them, and the manifest. */
+export function exportQti(quiz: Quiz, questions: Question[]): Blob {
+  const items = questions.map((q, i) => ({ id: `item${i + 1}`, file: `items/item${i + 1}.xml`, q }));
+  const test =
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<assessmentTest ${QTI_NS} identifier="quiz${quiz.id}" title="${escapeXml(quiz.title)}">` +
+    `<testPart identifier="part1" navigationMode="nonlinear" submissionMode="simultaneous">` +
+    `<assessmentSection identifier="section1" title="${escapeXml(quiz.title)}" visible="true">` +
+    items.map((it) => `<assessmentItemRef identifier="${it.id}" href="${it.file}"/>`).join("") +
+    `</assessmentSection></testPart></assessmentTest>\n`;
+
+  const resources = [
+    `<resource identifier="test" type="imsqti_test_xmlv2p1" href="test.xml"><file href="test.xml"/>` +
+      items.map((it) => `<dependency identifierref="${it.id}"/>`).join("") +
+      `</resource>`,
+    ...items.map(
+      (it) => `<resource identifier="${it.id}" type="imsqti_item_xmlv2p1" href="${it.file}"><file href="${it.file}"/></resource>`
+    ),
+  ];
+  const manifest =
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="manifest-quiz${quiz.id}">` +
+    `<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>` +
+    `<organizations/><resources>${resources.join("")}</resources></manifest>\n`;
+
+  return createZip([
+    { name: "imsmanifest.xml", content: manifest },
+    { name: "test.xml", content: test },
+    ...items.map((it) => ({ name: it.file, content: qtiItem(it.q, it.id) })),
+  ]);
+}
+
+// ---- print -----------------------------------------------------------------
+
+function printableQuestion(q: Question, n: number, answerKey: boolean): string {
+  const letters = (labels: string[], box: string) =>
+    `<ol type="A">${labels.map((l) => `<li><span class="box">${box}</span> ${escapeXml(l)}</li>`).join("")}</ol>`;
+  let body: string;
+  switch (q.type) {
+    case "single":
+      body = letters(q.options, "○");
+      break;
+    case "multi":
+      body = `<p class="hint">Select all that apply.</p>${letters(q.options, "☐")}`;
+      break;
+    case "truefalse":
+      body = letters(["True", "False"], "○");
+      break;
+    case "ordering":
+      body = `<p class="hint">Number the items in the right order.</p><ul>${q.items
+        .map((l) => `<li>____ ${escapeXml(l)}</li>`)
+        .join("")}</ul>`;
+      break;
+    default:
+      body = `<div class="line"></div>`;
+  }
+  const key = answerKey ? describeCorrect(q) : null;
+  return (
+    `<section><h3>${n}. ${escapeXml(q.text)} <small>(${questionTypeLabel(q.type)})</small></h3>${body}` +
+    (key ? `<p class="key">Answer: ${escapeXml(key)}</p>` : "") +
+    `</section>`
+  );
+}
+
+/**
+ * Writes the paper version into `win` and opens the print dialog, which can
+ * also save it as PDF. The window must be opened by the caller straight from
+ * the click, before any awaits, or pop-up blockers will refuse it.
+ */
+export function printQuiz(win: Window | null, quiz: Quiz, questions: Question[], answerKey: boolean) {
+  if (!win) throw new Error("Allow pop-ups for this site to print the quiz");
+  const title = escapeXml(quiz.title) + (answerKey ? " — answer key" : "");
+  win.document.write(`<!doctype html><html><head><meta charset="utf-8"><title>${title}</title><style>
+    body { font: 14px/1.5 system-ui, sans-serif; color: #111; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+    header { border-bottom: 1px solid #999; margin-bottom: 1.5rem; }
+    .fields { display: flex; gap: 2rem; margin: 1rem 0; }
+    .fields span { flex: 1; border-bottom: 1px solid #999; }
+    section { break-inside: avoid; margin-bottom: 1.5rem; }
+    h3 { font-size: 1rem; margin: 0 0 .5rem; }
+    h3 small { font-weight: normal; color: #666; }
+    ol, ul { margin: 0; padding-left: 1.5rem; list-style-position: inside; }
+    .box { display: inline-block; width: 1.2em; }
+    .hint { margin: 0 0 .25rem; color: #666; font-style: italic; }
+    .line { border-bottom: 1px solid #999; height: 2rem; }
+    .key { margin: .5rem 0 0; color: #065f46; font-weight: 600; }
+  </style></head><body>
+    <header><h1>${title}</h1>${quiz.description ? `<p>${escapeXml(quiz.description)}</p>` : ""}
+      ${answerKey ? "" : `<div class="fields"><span>Name:</span><span>Date:</span></div>`}
+      ${quiz.timeLimitMinutes ? `<p>Time limit: ${quiz.timeLimitMinutes} minutes</p>` : ""}
+    </header>
+    ${questions.map((q, i) => printableQuestion(q, i + 1, answerKey)).join("")}
+  </body></html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+}
@@ -0,0 +1,48 @@
+import type { Question, Quiz, QuizSchedule, QuizStatus } from "../api";
+import { checkQuestion } from "./questionImport";
+import { toQuestionInput } from "./questions";
+
+export const STATUS_LABELS: Record<QuizStatus, string> = {
+  draft: "Draft",
+  scheduled: "Scheduled",
+  open: "Open",
+  closed: "Closed",
+  archived: "Archived",
+};
+
+/**
+ * The status right now. The server's value goes stale as dates pass, so a
+ * published quiz is re-derived from its window on every render.
+ */
+export function quizStatus(q: QuizSchedule, now = Date.now()): QuizStatus {
+  if (q.status === "draft" || q.status === "archived") return q.status;
+  if (q.opensAt && Date.parse(q.opensAt) > now) return "scheduled";
+  if (q.closesAt && Date.parse(q.closesAt) <= now) return "closed";
+  return "open";
+}
+
+/** Quizzes students may see: open ones, and scheduled ones as "opens in…". */
+export function isListed(q: QuizSchedule, now = Date.now()) {
+  const status = quizStatus(q, now);
+  return status === "open" || status === "scheduled";
+}
+
+export function scheduleProblem(q: QuizSchedule): string | null {
+  if (q.opensAt && q.closesAt && Date.parse(q.closesAt) <= Date.parse(q.opensAt))
+    return "The closing time must be after the opening time";
+  return null;
+}
+
+/** Reasons the quiz can't be published yet; empty when it's ready. */
+export function publishProblems(q: QuizSchedule & Pick<Quiz, "drawRules">, questions: Question[]): string[] {
+  const problems: string[] = [];
+  const drawn = q.drawRules?.some((r) => Object.values(r.counts).some((n) => n > 0));
+  if (!questions.length && !drawn) problems.push("Add at least one question");
+  questions.forEach((question, i) => {
+    const { errors } = checkQuestion(toQuestionInput(question), `Question ${i + 1}`);
+    errors.forEach((e) => problems.push(`Question ${i + 1}: ${e}`));
+  });
+  const schedule = scheduleProblem(q);
+  if (schedule) problems.push(schedule);
+  return problems;
+}
@@ -0,0 +1,70 @@
+import DOMPurify from "dompurify";
+import hljs from "highlight.js/lib/common";
+import katex from "katex";
+import { Marked, type TokenizerAndRendererExtension, type Tokens } from "marked";
+
+/**
+ * Question content is Markdown (GFM) with fenced code, images and LaTeX math:
+ * `$…$` or `\(…\)` inline, `$$…$$` or `\[…\]` on their own lines. Authors can
+ * also write raw HTML, so every render goes through DOMPurify.
+ */
+
+const tex = (source: string, displayMode: boolean) =>
+  katex.renderToString(source, { displayMode, throwOnError: false, output: "htmlAndMathml" });
+
+type MathToken = Tokens.Generic & { text: string };
+
+const blockMath: TokenizerAndRendererExtension = {
+  name: "blockMath",
+  level: "block",
+  start: (src) => src.match(/\$\$|\\\[/)?.index,
+  tokenizer(src) {
+    const m = /^\$\$([\s\S]+?)\$\$[^\S\n]*(?:\n+|$)/.exec(src) ?? /^\\\[([\s\S]+?)\\\][^\S\n]*(?:\n+|$)/.exec(src);
+    if (m) return { type: "blockMath", raw: m[0], text: m[1].trim() };
+  },
+  renderer: (token) => `<div class="math-display">${tex((token as MathToken).text, true)}</div>`,
+};
+
+// A `$` only opens math when followed by a non-space and only closes when not
+// followed by a digit, so prices like "$5 and $10" stay text.
+const inlineMath: TokenizerAndRendererExtension = {
+  name: "inlineMath",
+  level: "inline",
+  start: (src) => src.match(/\$|\\\(/)?.index,
+  tokenizer(src) {
+    const m = /^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/.exec(src) ?? /^\\\(([\s\S]+?)\\\)/.exec(src);
+    if (m) return { type: "inlineMath", raw: m[0], text: m[1] };
+  },
+  renderer: (token) => tex((token as MathToken).text, false),
+};
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const markdown = new Marked({ gfm: true, breaks: true });
+markdown.use({
+  extensions: [blockMath, inlineMath],
+  renderer: {
+    code({ text, lang }) {
+      const language = lang?.trim().split(/\s+/)[0];
+      const body =
+        language && hljs.getLanguage(language) ? hljs.highlight(text, { language }).value : escapeHtml(text);
+      return `<pre><code class="hljs${language ? ` language-${escapeHtml(language)}` : ""}">${body}</code></pre>`;
+    },
+  },
+});
+
+DOMPurify.addHook("afterSanitizeAttributes", (node) => {
+  if (node.tagName === "A" && node.getAttribute("href")) {
+    node.setAttribute("target", "_blank");
+    node.setAttribute("rel", "noopener noreferrer");
+  }
+  // Like attachment images, so a long quiz doesn't fetch every picture up front.
+  if (node.tagName === "IMG") node.setAttribute("loading", "lazy");
+});
+
+/** Sanitized HTML for question text. `inline` is for options and items, which can't hold blocks. */
+export function renderRichText(source: string, inline = false): string {
+  const html = inline ? markdown.parseInline(source, { async: false }) : markdown.parse(source, { async: false });
+  return DOMPurify.sanitize(html, { ADD_ATTR: ["target"] });
+}
@@ -0,0 +1,33 @@
+import type { AnswerMarks, PassInfo, Question } from "../api";
+
+export const DEFAULT_PASS_MARK = 50;
+
+export const questionPoints = (q: Pick<Question, "points">) => q.points ?? 1;
+
+/** Points without float noise: 2, 1.5, 0.33. */
+export function fmtPoints(n: number) {
+  return String(Math.round(n * 100) / 100);
+}
+
+export function scorePercent(score: number, total: number) {
+  return total > 0 ? Math.round((score / total) * 100) : 0;
+}
+
+/** The server's verdict when it sends one, otherwise the score against the pass mark. */
+export function isPassing(r: { score: number; total: number } & PassInfo, passMark = r.passMark) {
+  return r.passed ?? (r.total > 0 && (r.score / r.total) * 100 >= (passMark ?? DEFAULT_PASS_MARK));
+}
+
+export type AnswerVerdict = "correct" | "partial" | "wrong";
+
+export function answerVerdict(a: AnswerMarks & { isCorrect: boolean }): AnswerVerdict {
+  if (a.isCorrect) return "correct";
+  return a.points !== undefined && a.points > 0 ? "partial" : "wrong";
+}
+
+/** "1.5 / 2 pts"; answers from older backends count as one point each. */
+export function fmtAnswerPoints(a: AnswerMarks & { isCorrect: boolean }) {
+  const max = a.maxPoints ?? 1;
+  const earned = a.points ?? (a.isCorrect ? max : 0);
+  return `${fmtPoints(earned)} / ${fmtPoints(max)} pts`;
+}
@@ -0,0 +1,120 @@
+import type { AnswerValue, Question, Quiz } from "../api";
+
+/**
+ * Per-attempt shuffling. Everything is seeded from the attempt id, so a
+ * reload (or another device) shows the same order, while answers are always
+ * stored and posted against the authored option indexes.
+ */
+
+export type ShuffleSettings = Pick<Quiz, "shuffleQuestions" | "shuffleOptions">;
+
+export type PresentedQuestion = {
+  /** The question as the student sees it, options in shuffled order. */
+  question: Question;
+  toDisplay: (answer?: AnswerValue) => AnswerValue | undefined;
+  toCanonical: (answer: AnswerValue) => AnswerValue;
+};
+
+function hash(a: number, b: number) {
+  let h = Math.imul(a ^ 0x9e3779b9, 0x85ebca6b) ^ Math.imul(b + 0x27d4eb2f, 0xc2b2ae35);
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x7feb352d);
+  h ^= h >>> 15;
+  h = Math.imul(h, 0x846ca68b);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/** mulberry32 */
+function random(seed: number) {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(a ^ (a >>> 15), a | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** `perm[displayIndex]` is the authored index shown at that position. */
+function permutation(length: number, seed: number) {
+  const next = random(seed);
+  const perm = Array.from({ length }, (_, i) => i);
+  for (let i = length - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1));
+    [perm[i], perm[j]] = [perm[j], perm[i]];
+  }
+  return perm;
+}
+
+/**
+ * Orders by a per-question key rather than shuffling the list, so a question
+ * keeps its relative place even if others are added to the quiz mid-attempt.
+ */
+export function orderQuestions(questions: Question[], attemptId: number, settings: ShuffleSettings) {
+  if (!settings.shuffleQuestions) return questions;
+  return [...questions].sort((a, b) => hash(attemptId, a.id) - hash(attemptId, b.id));
+}
+
+export function presentQuestion(q: Question, attemptId: number, settings: ShuffleSettings): PresentedQuestion {
+  const identity: PresentedQuestion = { question: q, toDisplay: (a) => a, toCanonical: (a) => a };
+  // Ordering items are authored in the right order, so they are shuffled whatever the quiz says.
+  if (!settings.shuffleOptions && q.type !== "ordering") return identity;
+
+  const length = q.type === "single" || q.type === "multi" ? q.options.length : q.type === "ordering" ? q.items.length : 0;
+  if (length < 2) return identity;
+
+  let perm = permutation(length, hash(attemptId, q.id));
+  // A shuffle that lands on the answer would show the question already solved.
+  if (q.type === "ordering" && perm.every((i, pos) => i === (q.correctOrder?.[pos] ?? pos)))
+    perm = [...perm.slice(1), perm[0]];
+  const toCanonicalIndex = (i: number) => perm[i];
+  const toDisplayIndex = (i: number) => perm.indexOf(i);
+  const byIndex = (a: number, b: number) => a - b;
+
+  let question: Question;
+  switch (q.type) {
+    case "single":
+      question = {
+        ...q,
+        options: perm.map((i) => q.options[i]),
+        optionImages: q.optionImages && perm.map((i) => q.optionImages?.[i] ?? null),
+        optionFeedback: q.optionFeedback && perm.map((i) => q.optionFeedback?.[i] ?? ""),
+        correctOptionIndex: q.correctOptionIndex === undefined ? undefined : toDisplayIndex(q.correctOptionIndex),
+      };
+      break;
+    case "multi":
+      question = {
+        ...q,
+        options: perm.map((i) => q.options[i]),
+        optionImages: q.optionImages && perm.map((i) => q.optionImages?.[i] ?? null),
+        optionFeedback: q.optionFeedback && perm.map((i) => q.optionFeedback?.[i] ?? ""),
+        correctOptionIndexes: q.correctOptionIndexes?.map(toDisplayIndex).sort(byIndex),
+      };
+      break;
+    case "ordering":
+      question = { ...q, items: perm.map((i) => q.items[i]), correctOrder: q.correctOrder?.map(toDisplayIndex) };
+      break;
+    default:
+      return identity;
+  }
+
+  function mapAnswer(a: AnswerValue, map: (i: number) => number): AnswerValue {
+    switch (a.type) {
+      case "single":
+        return { ...a, selectedOptionIndex: map(a.selectedOptionIndex) };
+      case "multi":
+        return { ...a, selectedOptionIndexes: a.selectedOptionIndexes.map(map).sort(byIndex) };
+      case "ordering":
+        return { ...a, order: a.order.map(map) };
+      default:
+        return a;
+    }
+  }
+
+  return {
+    question,
+    toDisplay: (a) => a && mapAnswer(a, toDisplayIndex),
+    toCanonical: (a) => mapAnswer(a, toCanonicalIndex),
+  };
+}